@@ -2,17 +2,86 @@
 export { State } from "./src/state.ts";
 export { computed } from "./src/computed.ts";
 export { asyncState, fetchState, mutationState } from "./src/async.ts";
+export { HttpError } from "./src/http.ts";
+export { infiniteState } from "./src/infinite.ts";
+export { batch } from "./src/batch.ts";
+export { deepEqual, shallowEqual } from "./src/equals.ts";
+export { historyState, withHistory } from "./src/history.ts";
+export { createQueryClient } from "./src/query.ts";
+export { persistedState } from "./src/persist.ts";
+export { form } from "./src/form.ts";
+export { collection } from "./src/collection.ts";
+export { collectionView } from "./src/view.ts";
+export { entityCollection } from "./src/entity.ts";
+export { hydrate, serialize, withScope } from "./src/scope.ts";
+export {
+  cookieAdapter,
+  fileAdapter,
+  indexedDBAdapter,
+  jsonSerializer,
+  localStorageAdapter,
+  memoryAdapter,
+  richSerializer,
+  sessionStorageAdapter,
+} from "./src/storage.ts";
 
-// React integration (optional)
-export { useRaptorState, useComputed, useAsyncState } from "./src/react.ts";
+// React integration lives in the "./react" entry point (react.ts)
 
 // Types
 export type {
   StateValue,
+  StateOptions,
+  Equality,
   StateInstance,
   AsyncStateInstance,
+  AsyncStateOptions,
+  ConcurrencyStrategy,
+  PollOptions,
+  FetchStateOptions,
+  HttpRequest,
+  QueryParams,
+  RequestInterceptor,
+  ResponseInterceptor,
+  ResponseParser,
+  MutationOptions,
+  InfiniteData,
+  InfiniteStateOptions,
+  InfiniteStateInstance,
+  ArrayFieldPath,
+  FieldErrors,
+  FieldFlags,
+  FieldArrayInstance,
+  FieldPath,
+  FieldValidator,
+  FieldValue,
+  FormInstance,
+  FormOptions,
+  PersistedStateInstance,
+  PersistOptions,
+  Serializer,
+  StorageAdapter,
+  QueryClient,
+  QueryInstance,
+  QueryKey,
+  QueryOptions,
+  RetryOptions,
   ComputedInstance,
+  ComputedOptions,
+  ComputedSource,
+  SourceValue,
+  SourceValues,
+  HistoryOptions,
+  HistoryStateInstance,
+  CollectionOptions,
+  CollectionInstance,
+  CollectionViewOptions,
+  CollectionViewInstance,
+  EntityId,
+  EntityState,
+  EntityCollectionOptions,
+  EntityCollectionInstance,
 } from "./src/types.ts";
 
 // Re-export useful Effector utilities
-export { sample, combine, merge } from "effector";
+export { sample, combine, merge, fork } from "effector";
+export type { Scope } from "effector";
@@ -0,0 +1,12 @@
+// React integration entry point: import from "raptor-state/react"
+export {
+  useRaptorState,
+  useComputed,
+  useAsyncState,
+  useRaptorSelector,
+  useAsyncStateSuspense,
+  useLocalState,
+  createStateContext,
+  ScopeProvider,
+} from "./src/react.ts";
+export type { Subscribable } from "./src/react.ts";
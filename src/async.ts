@@ -1,90 +1,436 @@
 import { createEffect } from "effector";
+import type { Scope } from "effector";
+import { batch } from "./batch.ts";
+import { createRequest } from "./http.ts";
+import { retryDelay, withRetry } from "./retry.ts";
+import { currentScope, withScope } from "./scope.ts";
+import { trackWrites } from "./snapshot.ts";
 import { State } from "./state.ts";
-import type { AsyncStateInstance, StateValue } from "./types.ts";
+import type {
+  AsyncStateInstance,
+  AsyncStateOptions,
+  FetchStateOptions,
+  MutationOptions,
+  QueryClient,
+  QueryInstance,
+  StateInstance,
+  StateValue,
+} from "./types.ts";
+
+/** Calls of one async state in one scope */
+interface Calls<Data> {
+  /** Controllers of every call that is running or waiting in the queue */
+  readonly controllers: Set<AbortController>;
+  /** Call that new ones join under "takeFirst" */
+  current: Promise<Data> | null;
+  /** Tail of the "queue" strategy chain */
+  queue: Promise<unknown>;
+}
+
+/** Mutation call with optimistic changes */
+interface OptimisticCall<Params> {
+  readonly input: Params;
+  readonly scope: Scope | null;
+  /** Roll back the states written by the call's onMutate */
+  restore: () => void;
+  settled: boolean;
+}
+
+// Controller of the call behind each promise returned by execute()
+const callControllers = new WeakMap<Promise<unknown>, AbortController>();
+
+/**
+ * Whether the call behind an execute() promise was superseded or cancelled
+ * @internal
+ */
+export function wasCancelled(promise: Promise<unknown>): boolean {
+  return callControllers.get(promise)?.signal.aborted === true;
+}
+
+const createCalls = <Data>(): Calls<Data> => ({
+  controllers: new Set(),
+  current: null,
+  queue: Promise.resolve(),
+});
 
 /**
  * Create an async state that handles data fetching with loading/error states
- * @param handler - Async function to handle the operation
+ * @param handler - Async function to handle the operation, receives an AbortSignal
  * @param initialData - Initial data value
+ * @param options - Concurrency (defaults to "takeLatest"), retry and polling
+ * options and the name of the data state
  * @returns AsyncStateInstance with data/loading/error states
  */
 export function asyncState<Params, Data>(
-  handler: (params: Params) => Promise<Data>,
+  handler: (params: Params, signal: AbortSignal) => Promise<Data>,
   initialData: StateValue<Data> = null,
+  options: AsyncStateOptions = {},
 ): AsyncStateInstance<Data> {
-  const fx = createEffect<Params, Data, Error>(handler);
-  
-  const data = State<Data>(initialData);
-  const loading = State<boolean>(false);
-  const error = State<Error | null>(null);
-  
-  // Wire up the effect to states
-  fx.pending.watch((isLoading) => {
-    loading.set(isLoading);
-  });
-  
-  fx.doneData.watch((result) => {
-    data.set(result);
-    error.set(null);
-  });
-  
-  fx.failData.watch((err) => {
-    error.set(err);
-  });
-  
+  const { strategy = "takeLatest", retry, poll, name } = options;
+  const polling = typeof poll === "number" ? { interval: poll } : poll;
+
+  const fx = createEffect<{ params: Params; signal: AbortSignal }, Data, Error>(
+    ({ params, signal }) => handler(params, signal),
+  );
+
+  // Polling repeats the last call while anyone listens
+  let subscribers = 0;
+  let polled = false;
+  let lastParams: unknown;
+  let lastScope: Scope | null = null;
+  let failures = 0;
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const stopPolling = () => {
+    clearTimeout(pollTimer);
+    polled = false;
+    failures = 0;
+  };
+
+  // Wrap a state so its subscribers keep polling alive
+  const countSubscribers = <T>(state: StateInstance<T>): StateInstance<T> => {
+    if (!polling) return state;
+    // Unsubscribers handed out by this wrapper, run by dispose
+    const unsubscribers = new Set<() => void>();
+    return {
+      ...state,
+
+      get value() {
+        return state.value;
+      },
+
+      subscribe(fn: (value: StateValue<T>) => void) {
+        const unsubscribe = state.subscribe(fn);
+        subscribers++;
+        schedulePoll();
+        const release = () => {
+          if (!unsubscribers.delete(release)) return;
+          unsubscribe();
+          subscribers--;
+          if (subscribers === 0) clearTimeout(pollTimer);
+        };
+        unsubscribers.add(release);
+        return release;
+      },
+
+      dispose() {
+        unsubscribers.forEach((release) => release());
+        state.dispose();
+      },
+    };
+  };
+
+  const data = countSubscribers(State<Data>(initialData, { name }));
+  const loading = countSubscribers(State<boolean>(false));
+  const error = countSubscribers(State<Error | null>(null));
+  const attempt = State<number>(0);
+
+  // Each scope runs its own calls, so concurrent server renders don't abort each other
+  const globalCalls = createCalls<Data>();
+  const scopedCalls = new WeakMap<Scope, Calls<Data>>();
+  const callsOf = (scope: Scope | null) => {
+    if (!scope) return globalCalls;
+    let calls = scopedCalls.get(scope);
+    if (!calls) {
+      calls = createCalls<Data>();
+      scopedCalls.set(scope, calls);
+    }
+    return calls;
+  };
+
+  const abortAll = (calls: Calls<Data>) => {
+    calls.controllers.forEach((controller) => controller.abort());
+    calls.controllers.clear();
+    calls.current = null;
+  };
+
+  // Apply a call's outcome in its scope, notifying subscribers once per settle
+  const settle = (scope: Scope | null, controller: AbortController, apply: () => void) => {
+    const { controllers } = callsOf(scope);
+    controllers.delete(controller);
+    withScope(scope, () =>
+      batch(() => {
+        loading.set(controllers.size > 0);
+        if (!controller.signal.aborted) apply();
+      })
+    );
+  };
+
+  const run = async (params: Params, controller: AbortController, scope: Scope | null) => {
+    const { signal } = controller;
+    try {
+      signal.throwIfAborted();
+      const result = await withRetry(
+        () => fx({ params, signal }),
+        retry,
+        signal,
+        (count) => withScope(scope, () => attempt.set(count)),
+      );
+      signal.throwIfAborted();
+      settle(scope, controller, () => {
+        data.set(result);
+        error.set(null);
+      });
+      return result;
+    } catch (err) {
+      settle(scope, controller, () => error.set(err as Error));
+      if (!signal.aborted) throw err;
+      // Superseded and cancelled calls resolve with the current data, so
+      // calls nobody awaits don't end in an unhandled rejection
+      return withScope(scope, () => data.value) as Data;
+    }
+  };
+
+  const cancel = () => {
+    stopPolling();
+    abortAll(callsOf(currentScope()));
+    loading.set(false);
+  };
+
+  // Plan the next poll, unless a call is still in flight
+  const schedulePoll = () => {
+    clearTimeout(pollTimer);
+    if (!polling || !polled || subscribers === 0) return;
+    if (callsOf(lastScope).controllers.size > 0) return;
+
+    const { interval, backoff = false, maxInterval = 30_000 } = polling;
+    const wait = failures > 0 && backoff
+      ? retryDelay(
+        { backoff, delay: interval, maxDelay: Math.max(maxInterval, interval), jitter: false },
+        failures + 1,
+      )
+      : interval;
+    pollTimer = setTimeout(() => {
+      withScope(lastScope, () => execute(lastParams)).catch(() => {});
+    }, wait);
+  };
+
+  const execute = (params?: unknown) => {
+    // Results are applied in the scope the call started in
+    const scope = currentScope();
+    const calls = callsOf(scope);
+    if (strategy === "takeFirst" && calls.current) return calls.current;
+    if (strategy === "takeLatest") abortAll(calls);
+
+    const controller = new AbortController();
+    calls.controllers.add(controller);
+    loading.set(true);
+
+    let promise: Promise<Data>;
+    if (strategy === "queue") {
+      promise = calls.queue.then(() => run(params as Params, controller, scope));
+      calls.queue = promise.catch(() => undefined);
+    } else {
+      promise = run(params as Params, controller, scope);
+    }
+
+    callControllers.set(promise, controller);
+
+    if (strategy === "takeFirst") {
+      const clear = () => {
+        if (calls.current === promise) calls.current = null;
+      };
+      calls.current = promise;
+      promise.then(clear, clear);
+    }
+
+    if (polling) {
+      lastParams = params;
+      lastScope = scope;
+      polled = true;
+      clearTimeout(pollTimer);
+      promise.then(
+        () => {
+          if (!controller.signal.aborted) failures = 0;
+          schedulePoll();
+        },
+        () => {
+          if (!controller.signal.aborted) failures++;
+          schedulePoll();
+        },
+      );
+    }
+
+    return promise;
+  };
+
   return {
     data,
     loading,
     error,
-    
-    execute: fx as (params?: unknown) => Promise<Data>,
-    
+    attempt,
+    execute,
+    cancel,
+
     get isLoading() {
       return loading.value === true;
     },
-    
+
     get hasError() {
       return error.value !== null;
     },
-    
+
     get hasData() {
       return data.value !== null && data.value !== undefined;
     },
-    
+
     reset() {
-      data.set(initialData);
-      loading.set(false);
-      error.set(null);
+      stopPolling();
+      abortAll(callsOf(currentScope()));
+      batch(() => {
+        data.set(initialData);
+        loading.set(false);
+        error.set(null);
+        attempt.set(0);
+      });
     },
   };
 }
 
+/**
+ * Create a fetch state sharing its response through a query client
+ * @param url - URL or URL template, ":name" placeholders are filled from the
+ * execute params
+ * @param options - Fetch options with the query client caching the response
+ * @returns QueryInstance for the cache entry, dispose() it when done so
+ * the client can collect the entry
+ */
+export function fetchState<T = unknown, Params = unknown>(
+  url: string,
+  options: FetchStateOptions<T, Params> & { readonly client: QueryClient },
+): QueryInstance<T>;
+
 /**
  * Create a fetch state for HTTP requests - replaces useEffect for data fetching
- * @param url - URL to fetch from
- * @param options - Fetch options
- * @returns AsyncStateInstance for the fetch operation
+ * @param url - URL or URL template, ":name" placeholders are filled from the
+ * execute params
+ * @param options - Fetch options, body/query builders, response parser,
+ * interceptors, asyncState options and an optional query client to share and
+ * cache the response
+ * @returns AsyncStateInstance for the fetch operation, failing with HttpError
+ * on non-2xx responses
  */
-export function fetchState<T = unknown>(
+export function fetchState<T = unknown, Params = unknown>(
   url: string,
-  options: RequestInit = {},
-): AsyncStateInstance<T> {
-  return asyncState(async () => {
-    const response = await fetch(url, options);
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-    return response.json() as T;
-  });
+  options?: FetchStateOptions<T, Params>,
+): AsyncStateInstance<T>;
+
+export function fetchState<T = unknown, Params = unknown>(
+  url: string,
+  options: FetchStateOptions<T, Params> = {},
+): AsyncStateInstance<T> | QueryInstance<T> {
+  const { strategy, retry, poll, name, client, key, staleTime } = options;
+  const request = createRequest(url, options);
+
+  if (client) {
+    return client.query(key ?? url, (signal) => request(undefined as Params, signal), {
+      staleTime,
+      retry,
+    });
+  }
+
+  return asyncState(request, null, { strategy, retry, poll, name });
 }
 
 /**
  * Create a mutation state for POST/PUT/DELETE operations
  * @param handler - Async mutation function
+ * @param options - Concurrency (defaults to "parallel"), retry options and
+ * optimistic update hooks
  * @returns AsyncStateInstance for the mutation
  */
-export function mutationState<Params, Data>(
-  handler: (params: Params) => Promise<Data>,
+export function mutationState<Params, Data, Context = unknown>(
+  handler: (params: Params, signal: AbortSignal) => Promise<Data>,
+  options: MutationOptions<Params, Data, Context> = {},
 ): AsyncStateInstance<Data> {
-  return asyncState(handler);
+  const {
+    onMutate,
+    onSuccess,
+    onError,
+    onSettled,
+    strategy = "parallel",
+    retry,
+  } = options;
+  const mutation = asyncState(handler, null, { strategy, retry });
+
+  // Optimistic calls since the oldest one still in flight, in start order
+  const optimisticCalls: OptimisticCall<Params>[] = [];
+
+  const settle = (call: OptimisticCall<Params>) => {
+    call.settled = true;
+    while (optimisticCalls[0]?.settled) optimisticCalls.shift();
+  };
+
+  // Undo a failed call; later calls wrote on top of it, so their onMutate
+  // runs again on the restored values
+  const rollback = (call: OptimisticCall<Params>) => {
+    const index = optimisticCalls.indexOf(call);
+    if (index === -1 || !onMutate) return;
+    const later = optimisticCalls
+      .slice(index + 1)
+      .filter((other) => other.scope === call.scope);
+    optimisticCalls.splice(index, 1);
+
+    withScope(call.scope, () =>
+      batch(() => {
+        call.restore();
+        later.forEach((other) => {
+          other.restore = trackWrites(() => onMutate(other.input)).restore;
+        });
+      })
+    );
+    settle(call);
+  };
+
+  return {
+    ...mutation,
+
+    execute(params?: unknown) {
+      const input = params as Params;
+      const optimistic = onMutate
+        ? trackWrites(() => onMutate(input))
+        : { result: undefined as Context, restore: () => {} };
+      const context = optimistic.result;
+      const call: OptimisticCall<Params> = {
+        input,
+        scope: currentScope(),
+        restore: optimistic.restore,
+        settled: false,
+      };
+      if (onMutate) optimisticCalls.push(call);
+
+      const promise = mutation.execute(input);
+      return promise.then(
+        (data) => {
+          // Cancelled calls only roll back
+          if (wasCancelled(promise)) {
+            rollback(call);
+            return data;
+          }
+          settle(call);
+          onSuccess?.(data, input, context);
+          onSettled?.(data, null, input, context);
+          return data;
+        },
+        (err) => {
+          rollback(call);
+          onError?.(err, input, context);
+          onSettled?.(null, err, input, context);
+          throw err;
+        },
+      );
+    },
+
+    get isLoading() {
+      return mutation.isLoading;
+    },
+
+    get hasError() {
+      return mutation.hasError;
+    },
+
+    get hasData() {
+      return mutation.hasData;
+    },
+  };
 }
@@ -0,0 +1,81 @@
+import { launch } from "effector";
+import { currentScope } from "./scope.ts";
+import type { EventCallable } from "effector";
+
+/** A write collected while a batch is open */
+interface Draft {
+  readonly target: EventCallable<unknown>;
+  readonly value: unknown;
+}
+
+// Pending writes of the currently open batch, keyed by their owner
+let drafts: Map<object, Draft> | null = null;
+
+/**
+ * Whether a batch is currently open
+ * @internal
+ */
+export function isBatching(): boolean {
+  return drafts !== null;
+}
+
+/**
+ * Read the pending value written to `owner` in the open batch
+ * @internal
+ */
+export function getDraft(owner: object): { value: unknown } | undefined {
+  return drafts?.get(owner);
+}
+
+/**
+ * Queue a write for `owner` until the open batch ends
+ * @internal
+ */
+export function setDraft<T>(
+  owner: object,
+  target: EventCallable<T>,
+  value: T,
+): void {
+  drafts?.set(owner, { target: target as EventCallable<unknown>, value });
+}
+
+/**
+ * Apply several state changes as one update
+ * Subscribers and computed states only see the final combined values.
+ * If the callback throws, none of its changes are applied.
+ * @param fn - Function performing the state changes
+ * @returns The callback's return value
+ */
+export function batch<R>(fn: () => R): R {
+  // Nested batch: roll back only its own writes on failure
+  if (drafts !== null) {
+    const snapshot = new Map(drafts);
+    try {
+      return fn();
+    } catch (error) {
+      drafts = snapshot;
+      throw error;
+    }
+  }
+
+  drafts = new Map();
+  let pending: Draft[];
+  let result: R;
+  try {
+    result = fn();
+    pending = [...drafts.values()];
+  } finally {
+    drafts = null;
+  }
+
+  if (pending.length > 0) {
+    launch({
+      target: pending.map((draft) => draft.target),
+      params: pending.map((draft) => draft.value),
+      defer: false,
+      scope: currentScope() ?? undefined,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,163 @@
+import { computed, releaseWhenUnused } from "./computed.ts";
+import { State } from "./state.ts";
+import { collectionView } from "./view.ts";
+import type {
+  CollectionInstance,
+  CollectionOptions,
+  CollectionViewInstance,
+  ComputedInstance,
+  EntityId,
+  Equality,
+} from "./types.ts";
+
+/**
+ * Create a collection state that manages arrays with utility methods
+ * @param initialItems - Initial array items
+ * @param options - Collection options (id getter used by item())
+ * @returns CollectionInstance with array utilities and per-item stores
+ */
+export function collection<T>(
+  initialItems: T[] = [],
+  options: CollectionOptions<T> = {},
+): CollectionInstance<T> {
+  const { getId } = options;
+  const state = State<T[]>(initialItems);
+  const current = () => state.value || [];
+
+  // Per-item stores, connected and cached only while subscribed
+  const itemStores = new Map<EntityId, ComputedInstance<T | undefined>>();
+  // Id lookup per array value, shared by every item store
+  const indexes = new WeakMap<readonly T[], Map<EntityId, T>>();
+
+  const lookup = (arr: readonly T[], key: EntityId) => {
+    if (!getId) return arr[key as number];
+    let index = indexes.get(arr);
+    if (!index) {
+      index = new Map(arr.map((item) => [getId(item), item]));
+      indexes.set(arr, index);
+    }
+    return index.get(key);
+  };
+
+  // Stores handed out by item() and select() that are still in use
+  const derived = new Set<ComputedInstance<unknown>>();
+  const views = new Set<CollectionViewInstance<T>>();
+
+  return {
+    $state: state.$state,
+
+    get value() {
+      return state.value;
+    },
+
+    set: state.set,
+    update: state.update,
+    reset: state.reset,
+    subscribe: state.subscribe,
+
+    dispose() {
+      state.dispose();
+      derived.forEach((store) => store.dispose());
+      derived.clear();
+      views.forEach((view) => view.dispose());
+      views.clear();
+      itemStores.clear();
+    },
+
+    push(item: T) {
+      state.update((prev) => [...(prev || []), item]);
+    },
+
+    unshift(item: T) {
+      state.update((prev) => [item, ...(prev || [])]);
+    },
+
+    pop() {
+      const items = current();
+      if (items.length === 0) return undefined;
+
+      const last = items[items.length - 1];
+      state.update((prev) => (prev || []).slice(0, -1));
+      return last;
+    },
+
+    shift() {
+      const items = current();
+      if (items.length === 0) return undefined;
+
+      const first = items[0];
+      state.update((prev) => (prev || []).slice(1));
+      return first;
+    },
+
+    removeAt(index: number) {
+      state.update((prev) => (prev || []).filter((_, i) => i !== index));
+    },
+
+    remove(item: T) {
+      state.update((prev) => (prev || []).filter((x) => x !== item));
+    },
+
+    updateAt(index: number, updater: (item: T) => T) {
+      state.update((prev) => {
+        const arr = [...(prev || [])];
+        if (index >= 0 && index < arr.length) {
+          arr[index] = updater(arr[index]);
+        }
+        return arr;
+      });
+    },
+
+    find(predicate: (item: T) => boolean) {
+      return current().find(predicate);
+    },
+
+    filter(predicate: (item: T) => boolean) {
+      return current().filter(predicate);
+    },
+
+    mapItems<U>(mapper: (item: T) => U) {
+      return current().map(mapper);
+    },
+
+    item(key: EntityId) {
+      let store = itemStores.get(key);
+      if (!store) {
+        const created = releaseWhenUnused(
+          computed([state], (value) => lookup(value || [], key), { lazy: true }),
+          () => {
+            if (itemStores.get(key) === created) itemStores.delete(key);
+            derived.delete(created);
+          },
+        );
+        itemStores.set(key, created);
+        derived.add(created);
+        store = created;
+      }
+      return store;
+    },
+
+    select<U>(selector: (items: readonly T[]) => U, equals?: Equality<U>) {
+      const store: ComputedInstance<U> = releaseWhenUnused(
+        computed([state], (value) => selector(value || []), { equals, lazy: true }),
+        () => derived.delete(store as ComputedInstance<unknown>),
+      );
+      derived.add(store as ComputedInstance<unknown>);
+      return store;
+    },
+
+    view(viewOptions) {
+      const view = collectionView(state, viewOptions);
+      views.add(view);
+      return view;
+    },
+
+    get length() {
+      return current().length;
+    },
+
+    get isEmpty() {
+      return this.length === 0;
+    },
+  };
+}
@@ -1,31 +1,227 @@
-import { sample } from "effector";
-import type { Store } from "effector";
-import type { ComputedInstance } from "./types.ts";
+import {
+  clearNode,
+  createEvent,
+  createNode,
+  createStore,
+  is,
+  sample,
+  withRegion,
+} from "effector";
+import type { Node, Store } from "effector";
+import { resolveEquals, shallowEqual } from "./equals.ts";
+import { currentScope, readStore, watchStore, writeEvent } from "./scope.ts";
+import type {
+  ComputedInstance,
+  ComputedOptions,
+  ComputedSource,
+  SourceValues,
+} from "./types.ts";
+
+const toStore = (source: ComputedSource): Store<unknown> => {
+  return is.store(source) ? source : source.$state;
+};
+
+/** Hooks letting a dependent computed read and connect a computed source */
+interface ComputedSourceLink {
+  readonly read: () => unknown;
+  readonly retain: () => void;
+  readonly release: () => void;
+}
+
+// Computed states by their store, so dependents keep lazy ones connected
+const computedLinks = new WeakMap<Store<unknown>, ComputedSourceLink>();
+
+const readSource = (store: Store<unknown>) => {
+  const link = computedLinks.get(store);
+  return link ? link.read() : readStore(store);
+};
 
 /**
  * Create a computed state that derives its value from other states
- * @param dependencies - Array of stores to derive from
- * @param fn - Function to compute the derived value
+ * @param dependencies - Tuple of stores, states or computed states to derive from
+ * @param fn - Function receiving each dependency's value as an argument
+ * @param options - Computed options (equality used to skip unchanged results)
+ * @returns Computed state instance
+ */
+export function computed<
+  const Sources extends readonly ComputedSource[],
+  T,
+>(
+  dependencies: Sources,
+  fn: (...values: SourceValues<Sources>) => T,
+  options?: ComputedOptions<T>,
+): ComputedInstance<T>;
+
+/**
+ * Create a computed state that derives its value from a map of states
+ * @param dependencies - Object map of stores, states or computed states
+ * @param fn - Function receiving an object with each dependency's value
+ * @param options - Computed options (equality used to skip unchanged results)
  * @returns Computed state instance
  */
+export function computed<
+  Sources extends Readonly<Record<string, ComputedSource>>,
+  T,
+>(
+  dependencies: Sources,
+  fn: (values: SourceValues<Sources>) => T,
+  options?: ComputedOptions<T>,
+): ComputedInstance<T>;
+
 export function computed<T>(
-  dependencies: Store<unknown>[],
-  fn: (...values: unknown[]) => T,
+  dependencies: readonly ComputedSource[] | Readonly<Record<string, ComputedSource>>,
+  fn: (...values: never[]) => T,
+  options: ComputedOptions<T> = {},
 ): ComputedInstance<T> {
-  const $computed = sample({
-    source: dependencies,
-    fn: (values: unknown[]) => fn(...values),
+  const derive = fn as (...values: unknown[]) => T;
+  const { lazy = false } = options;
+  const equals = resolveEquals(options.equals);
+
+  const isTuple = Array.isArray(dependencies);
+  const stores = isTuple
+    ? (dependencies as readonly ComputedSource[]).map(toStore)
+    : Object.fromEntries(
+      Object.entries(dependencies).map(([key, source]) => [key, toStore(source)]),
+    );
+  const compute = (values: unknown) => {
+    return isTuple ? derive(...(values as unknown[])) : derive(values);
+  };
+  const storeList = Array.isArray(stores) ? stores : Object.values(stores);
+  // Last direct evaluation, reused while the source values stay the same
+  let lastRead: { inputs: unknown[]; result: T } | null = null;
+
+  // Evaluate directly from the sources in the active scope, bypassing the graph
+  const read = () => {
+    const inputs = storeList.map(readSource);
+    if (lastRead && shallowEqual(inputs, lastRead.inputs)) return lastRead.result;
+
+    const result = compute(
+      Array.isArray(stores)
+        ? inputs
+        : Object.fromEntries(Object.keys(stores).map((key, index) => [key, inputs[index]])),
+    );
+    lastRead = { inputs, result };
+    return result;
+  };
+
+  // Results equal to the current value keep the old reference and notify nobody
+  const $computed = createStore<T>(lazy ? undefined as T : read(), {
+    updateFilter: (next, prev) => !equals(next, prev),
+    skipVoid: false,
+  });
+  const refresh = createEvent<T>();
+  $computed.on(refresh, (_, value) => value);
+
+  // Region owning the sample chain while the computed is connected
+  let region: Node | null = null;
+  const subscriptions = new Set<() => void>();
+  // Connected computed states using this one as a source
+  let dependents = 0;
+
+  const connect = () => {
+    if (region) return;
+    storeList.forEach((store) => computedLinks.get(store)?.retain());
+    region = createNode();
+    withRegion(region, () => {
+      // clearNode() empties the source list, so sample gets its own copy
+      sample({
+        source: (Array.isArray(stores) ? [...stores] : { ...stores }) as Store<unknown>[],
+        fn: compute,
+        target: $computed,
+      });
+    });
+    refresh(read());
+  };
+
+  const disconnect = () => {
+    if (!region) return;
+    clearNode(region);
+    region = null;
+    storeList.forEach((store) => computedLinks.get(store)?.release());
+  };
+
+  const releaseIfUnused = () => {
+    if (lazy && subscriptions.size === 0 && dependents === 0) disconnect();
+  };
+
+  computedLinks.set($computed as Store<unknown>, {
+    read: () => region && !currentScope() ? $computed.getState() : read(),
+    retain() {
+      dependents++;
+      connect();
+    },
+    release() {
+      dependents--;
+      releaseIfUnused();
+    },
   });
+
+  if (!lazy) connect();
   
   return {
     $state: $computed,
     
     get value() {
+      // Forked scopes only hold derived values once a source changes in them
+      if (currentScope()) return read();
+      if (!region) refresh(read());
       return $computed.getState();
     },
     
     subscribe(fn: (value: T) => void) {
-      return $computed.watch(fn);
+      connect();
+      if (currentScope()) writeEvent(refresh, read());
+      const unwatch = watchStore($computed, fn);
+      const unsubscribe = () => {
+        unwatch();
+        subscriptions.delete(unsubscribe);
+        releaseIfUnused();
+      };
+      subscriptions.add(unsubscribe);
+      return unsubscribe;
+    },
+
+    dispose() {
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      disconnect();
+    },
+  };
+}
+
+/**
+ * Wrap a computed so `release` runs when its last subscriber leaves or it is
+ * disposed, letting per-key caches drop stores nobody listens to
+ * @internal
+ */
+export function releaseWhenUnused<T>(
+  store: ComputedInstance<T>,
+  release: () => void,
+): ComputedInstance<T> {
+  let subscribers = 0;
+
+  return {
+    $state: store.$state,
+
+    get value() {
+      return store.value;
+    },
+
+    subscribe(fn: (value: T) => void) {
+      const unsubscribe = store.subscribe(fn);
+      subscribers++;
+      let active = true;
+      return () => {
+        if (!active) return;
+        active = false;
+        unsubscribe();
+        subscribers--;
+        if (subscribers === 0) release();
+      };
+    },
+
+    dispose() {
+      store.dispose();
+      release();
     },
   };
 }
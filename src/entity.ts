@@ -0,0 +1,156 @@
+import { computed, releaseWhenUnused } from "./computed.ts";
+import { shallowEqual } from "./equals.ts";
+import { isPlainObject } from "./object.ts";
+import { State } from "./state.ts";
+import type {
+  ComputedInstance,
+  EntityCollectionInstance,
+  EntityCollectionOptions,
+  EntityId,
+  EntityState,
+  StateValue,
+} from "./types.ts";
+
+// Entity maps have no prototype, so ids like "constructor" are plain keys
+const createEntities = <T, Id extends EntityId>(
+  source?: Readonly<Partial<Record<Id, T>>>,
+): Partial<Record<Id, T>> => Object.assign(Object.create(null), source);
+
+const entityOf = <T, Id extends EntityId>(
+  entities: Readonly<Partial<Record<Id, T>>> | undefined,
+  id: Id,
+): T | undefined => (entities && Object.hasOwn(entities, id) ? entities[id] : undefined);
+
+// Upserts merge plain objects and replace anything else
+const merge = <T>(existing: T | undefined, incoming: T): T => {
+  return isPlainObject(existing) && isPlainObject(incoming)
+    ? { ...existing, ...incoming }
+    : incoming;
+};
+
+/**
+ * Create a collection storing entities normalized by id
+ * @param options - Id selector, optional sort comparator and initial entities
+ * @returns EntityCollectionInstance with per-entity selector stores
+ */
+export function entityCollection<T, Id extends EntityId = EntityId>(
+  options: EntityCollectionOptions<T, Id>,
+): EntityCollectionInstance<T, Id> {
+  const { selectId, sortComparer, initialItems = [] } = options;
+
+  type Entities = Partial<Record<Id, T>>;
+
+  // Build the next state, keeping the previous id list when its order is unchanged
+  const build = (
+    prev: EntityState<T, Id> | null,
+    ids: readonly Id[],
+    entities: Entities,
+  ): EntityState<T, Id> => {
+    const ordered = sortComparer
+      ? [...ids].sort((a, b) => sortComparer(entities[a] as T, entities[b] as T))
+      : ids;
+    return {
+      ids: prev && shallowEqual(ordered, prev.ids) ? prev.ids : ordered,
+      entities,
+    };
+  };
+
+  const upsertInto = (prev: StateValue<EntityState<T, Id>>, items: readonly T[]) => {
+    const ids = [...(prev?.ids ?? [])];
+    const entities: Entities = createEntities(prev?.entities);
+    for (const item of items) {
+      const id = selectId(item);
+      if (!Object.hasOwn(entities, id)) ids.push(id);
+      entities[id] = merge(entities[id], item);
+    }
+    return build(prev ?? null, ids, entities);
+  };
+
+  const state = State<EntityState<T, Id>>(upsertInto(null, initialItems));
+  const current = () => state.value ?? build(null, [], createEntities());
+
+  const ids = computed([state], (value) => value?.ids ?? []);
+  const all = computed([state], (value) => {
+    return (value?.ids ?? []).map((id) => entityOf(value?.entities, id) as T);
+  });
+
+  // Per-entity stores, connected and cached only while subscribed
+  const selectors = new Map<Id, ComputedInstance<T | undefined>>();
+
+  return {
+    $state: state.$state,
+
+    get value() {
+      return state.value;
+    },
+
+    set: state.set,
+    update: state.update,
+    reset: state.reset,
+    subscribe: state.subscribe,
+
+    dispose() {
+      state.dispose();
+      ids.dispose();
+      all.dispose();
+      selectors.forEach((selector) => selector.dispose());
+      selectors.clear();
+    },
+
+    ids,
+    all,
+
+    upsertOne(entity: T) {
+      state.update((prev) => upsertInto(prev, [entity]));
+    },
+
+    upsertMany(entities: readonly T[]) {
+      if (entities.length === 0) return;
+      state.update((prev) => upsertInto(prev, entities));
+    },
+
+    setAll(entities: readonly T[]) {
+      state.set(upsertInto(null, entities));
+    },
+
+    updateById(id: Id, changes: Partial<T> | ((entity: T) => T)) {
+      const existing = entityOf(current().entities, id);
+      if (existing === undefined) return;
+
+      const next = typeof changes === "function"
+        ? changes(existing)
+        : merge(existing, changes as T);
+      state.update((prev) => {
+        const value = prev ?? current();
+        const entities: Entities = createEntities(value.entities);
+        entities[id] = next;
+        return build(value, value.ids, entities);
+      });
+    },
+
+    removeById(id: Id) {
+      if (!Object.hasOwn(current().entities, id)) return;
+      state.update((prev) => {
+        const value = prev ?? current();
+        const entities: Entities = createEntities(value.entities);
+        delete entities[id];
+        return build(value, value.ids.filter((other) => other !== id), entities);
+      });
+    },
+
+    selectById(id: Id) {
+      let selector = selectors.get(id);
+      if (!selector) {
+        const created = releaseWhenUnused(
+          computed([state], (value) => entityOf(value?.entities, id), { lazy: true }),
+          () => {
+            if (selectors.get(id) === created) selectors.delete(id);
+          },
+        );
+        selectors.set(id, created);
+        selector = created;
+      }
+      return selector;
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import type { Equality } from "./types.ts";
+
+const isObject = (value: unknown): value is Record<PropertyKey, unknown> => {
+  return typeof value === "object" && value !== null;
+};
+
+/**
+ * Compare two values one level deep
+ * Arrays are compared item by item, objects key by key, using Object.is.
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every((key) => Object.hasOwn(b, key) && Object.is(a[key], b[key]));
+}
+
+/**
+ * Compare two values structurally
+ * Supports plain objects, arrays, Date, Map and Set.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+
+  if (a instanceof Map && b instanceof Map) {
+    if (a.size !== b.size) return false;
+    for (const [key, value] of a) {
+      if (!b.has(key) || !deepEqual(value, b.get(key))) return false;
+    }
+    return true;
+  }
+
+  if (a instanceof Set && b instanceof Set) {
+    if (a.size !== b.size) return false;
+    // Members in both sets match themselves; each other member of `b` can
+    // match only one member of `a`
+    const unmatched = [...b].filter((value) => !a.has(value));
+    for (const value of a) {
+      if (b.has(value)) continue;
+      const index = unmatched.findIndex((other) => deepEqual(value, other));
+      if (index === -1) return false;
+      unmatched.splice(index, 1);
+    }
+    return true;
+  }
+
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every((key) => Object.hasOwn(b, key) && deepEqual(a[key], b[key]));
+}
+
+/**
+ * Turn an equality option into a comparator function
+ * @param equals - "reference" (default), "shallow", "deep" or a custom comparator
+ * @returns Function returning true when both values are considered equal
+ */
+export function resolveEquals<T>(
+  equals: Equality<T> = "reference",
+): (a: T, b: T) => boolean {
+  switch (equals) {
+    case "reference":
+      return Object.is;
+    case "shallow":
+      return shallowEqual;
+    case "deep":
+      return deepEqual;
+    default:
+      return equals;
+  }
+}
@@ -0,0 +1,387 @@
+import { asyncState, wasCancelled } from "./async.ts";
+import { batch } from "./batch.ts";
+import { computed } from "./computed.ts";
+import { deepEqual } from "./equals.ts";
+import { getPath, setPath } from "./path.ts";
+import { State } from "./state.ts";
+import type {
+  FieldArrayInstance,
+  FieldErrors,
+  FieldFlags,
+  FieldPath,
+  FieldValidator,
+  FieldValue,
+  FormInstance,
+  FormOptions,
+  StateInstance,
+} from "./types.ts";
+
+/**
+ * Return a copy of a flag map with one path switched on or off
+ */
+const withFlag = (flags: FieldFlags | null | undefined, path: string, on: boolean) => {
+  const next = { ...flags };
+  if (on) {
+    next[path] = true;
+  } else {
+    delete next[path];
+  }
+  return next;
+};
+
+/**
+ * Return a copy of a per-path map with the rows of an array re-indexed
+ * Keys below `path` follow their row to `mapIndex(row)`, or are dropped on null.
+ */
+const remapRows = <V>(
+  entries: Partial<Record<string, V>> | null | undefined,
+  path: string,
+  mapIndex: (index: number) => number | null,
+) => {
+  const prefix = `${path}.`;
+  const next: Partial<Record<string, V>> = {};
+  for (const [key, value] of Object.entries(entries ?? {})) {
+    if (!key.startsWith(prefix)) {
+      next[key] = value;
+      continue;
+    }
+    const [row, ...rest] = key.slice(prefix.length).split(".");
+    const index = mapIndex(Number(row));
+    if (index === null) continue;
+    next[[path, index, ...rest].join(".")] = value;
+  }
+  return next;
+};
+
+let nextRowId = 0;
+const createRowId = () => `row-${++nextRowId}`;
+
+/**
+ * Read the `fieldErrors` object servers commonly attach to validation failures
+ */
+const defaultSubmitErrors = (error: Error): FieldErrors | null => {
+  const { fieldErrors } = error as Error & { fieldErrors?: unknown };
+  return typeof fieldErrors === "object" && fieldErrors !== null
+    ? fieldErrors as FieldErrors
+    : null;
+};
+
+/**
+ * Create a form state with per-field validation, touched and dirty tracking
+ * @param initialValues - Initial form values
+ * @param options - Field validators, when they run, the change debounce and
+ * how submission errors map to fields
+ * @returns FormInstance with field and validation utilities
+ */
+export function form<T extends object>(
+  initialValues: T,
+  options: FormOptions<NoInfer<T>> = {},
+): FormInstance<T> {
+  const {
+    validateOn = "submit",
+    debounce = 0,
+    mapSubmitErrors = defaultSubmitErrors,
+  } = options;
+  const validators = (options.validators ?? {}) as Partial<
+    Record<string, FieldValidator<unknown, T>>
+  >;
+
+  const values = State<T>(initialValues);
+  const errors = State<FieldErrors>({});
+  const touched = State<FieldFlags>({});
+  const dirty = State<FieldFlags>({});
+  const validating = State<FieldFlags>({});
+  const submitCount = State<number>(0);
+
+  // Submissions run through an async state, so isSubmitting is its loading flag
+  const submission = asyncState(
+    (
+      { handler, values }: {
+        handler: (values: T, signal: AbortSignal) => Promise<unknown>;
+        values: T;
+      },
+      signal,
+    ) => handler(values, signal),
+  );
+  const isSubmitting = submission.loading;
+  // Validation plus submission currently running, shared by repeated submits
+  let pendingSubmit: Promise<unknown> | null = null;
+  // Paths whose errors came from the last submission, cleared on the next one
+  let submitErrorPaths: string[] = [];
+
+  const isDirty = computed([dirty], (flags) => {
+    return Object.values(flags || {}).some(Boolean);
+  });
+
+  // Validation in flight and debounce timer per field path
+  const controllers = new Map<string, AbortController>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const current = () => values.value as T;
+
+  const setFlag = (flags: StateInstance<FieldFlags>, path: string, on: boolean) => {
+    flags.update((prev) => withFlag(prev, path, on));
+  };
+
+  const setError = (path: string, error: string | null | undefined) => {
+    errors.update((prev) => {
+      const next = { ...prev };
+      if (error) {
+        next[path] = error;
+      } else {
+        delete next[path];
+      }
+      return next;
+    });
+  };
+
+  // Stop the pending and running validations of a field
+  const cancelValidation = (path: string) => {
+    clearTimeout(timers.get(path));
+    timers.delete(path);
+    controllers.get(path)?.abort();
+    controllers.delete(path);
+  };
+
+  const runValidator = (path: string): Promise<boolean> => {
+    cancelValidation(path);
+    const validator = validators[path];
+    if (!validator) return Promise.resolve(!errors.value?.[path]);
+
+    const controller = new AbortController();
+    const finish = (message: string | null | undefined) => {
+      if (controller.signal.aborted) return !message;
+      controllers.delete(path);
+      batch(() => {
+        setFlag(validating, path, false);
+        setError(path, message);
+      });
+      return !message;
+    };
+    const fail = (error: unknown) => {
+      return finish(error instanceof Error ? error.message : String(error));
+    };
+
+    let result: ReturnType<typeof validator>;
+    try {
+      result = validator(getPath(current(), path), current(), controller.signal);
+    } catch (error) {
+      return Promise.resolve(fail(error));
+    }
+
+    if (!(result instanceof Promise)) return Promise.resolve(finish(result));
+
+    controllers.set(path, controller);
+    setFlag(validating, path, true);
+    return result.then(finish, fail);
+  };
+
+  const validateAll = async () => {
+    const results = await Promise.all(
+      Object.keys(validators).map((path) => runValidator(path)),
+    );
+    return results.every(Boolean) && Object.keys(errors.value || {}).length === 0;
+  };
+
+  // Field array helpers per path, sharing their row ids
+  const fieldArrays = new Map<string, FieldArrayInstance<unknown>>();
+
+  const createFieldArray = (path: string): FieldArrayInstance<unknown> => {
+    const rows = () => (getPath(current(), path) as unknown[] | undefined) ?? [];
+    const ids = State<string[]>(rows().map(createRowId));
+
+    // Keep one id per row when the array is replaced through setField or reset
+    values.$state.updates.watch(() => {
+      const length = rows().length;
+      const prev = ids.value ?? [];
+      if (prev.length === length) return;
+      ids.set(
+        Array.from({ length }, (_, index) => prev[index] ?? createRowId()),
+      );
+    });
+
+    // Reorder the rows, moving ids and per-row state along with them.
+    // `order` lists the old index of each new row, or -1 for an inserted one.
+    const reorder = (order: number[], inserted: unknown) => {
+      const prevRows = rows();
+      const prevIds = ids.value ?? [];
+      const nextRows = order.map((from) => from < 0 ? inserted : prevRows[from]);
+      const mapIndex = (from: number) => {
+        const to = order.indexOf(from);
+        return to < 0 ? null : to;
+      };
+
+      // Row validations in flight would report to the wrong index
+      [...new Set([...timers.keys(), ...controllers.keys()])]
+        .filter((key) => key.startsWith(`${path}.`))
+        .forEach(cancelValidation);
+
+      batch(() => {
+        values.update((prev) => setPath(prev, path, nextRows));
+        ids.set(order.map((from) => from < 0 ? createRowId() : prevIds[from]));
+        errors.update((prev) => remapRows(prev, path, mapIndex));
+        touched.update((prev) => remapRows(prev, path, mapIndex));
+        validating.update((prev) => remapRows(prev, path, mapIndex));
+        dirty.update((prev) => {
+          const next = remapRows(prev, path, mapIndex);
+          return withFlag(next, path, !deepEqual(nextRows, getPath(initialValues, path)));
+        });
+      });
+    };
+
+    const indices = () => rows().map((_, index) => index);
+    const clamp = (index: number, length: number) => {
+      return Math.max(0, Math.min(index, length));
+    };
+
+    const insert = (index: number, item: unknown) => {
+      const order = indices();
+      order.splice(clamp(index, order.length), 0, -1);
+      reorder(order, item);
+    };
+
+    return {
+      ids,
+
+      append(item) {
+        insert(rows().length, item);
+      },
+
+      insert,
+
+      remove(index) {
+        reorder(indices().filter((from) => from !== index), undefined);
+      },
+
+      move(from, to) {
+        const order = indices();
+        if (from < 0 || from >= order.length) return;
+        const [row] = order.splice(from, 1);
+        order.splice(clamp(to, order.length), 0, row);
+        reorder(order, undefined);
+      },
+    };
+  };
+
+  const fieldArray = (path: string) => {
+    let instance = fieldArrays.get(path);
+    if (!instance) {
+      instance = createFieldArray(path);
+      fieldArrays.set(path, instance);
+    }
+    return instance;
+  };
+
+  const scheduleValidation = (path: string) => {
+    if (debounce <= 0) {
+      runValidator(path);
+      return;
+    }
+    cancelValidation(path);
+    timers.set(path, setTimeout(() => {
+      timers.delete(path);
+      runValidator(path);
+    }, debounce));
+  };
+
+  return {
+    values,
+    errors,
+    touched,
+    dirty,
+    validating,
+    isSubmitting,
+    submitCount,
+    submitError: submission.error,
+    isDirty,
+
+    getField<P extends FieldPath<T>>(path: P) {
+      return getPath(current(), path) as FieldValue<T, P>;
+    },
+
+    setField<P extends FieldPath<T>>(path: P, value: FieldValue<T, P>) {
+      batch(() => {
+        values.update((prev) => setPath(prev, path, value));
+        setFlag(dirty, path, !deepEqual(value, getPath(initialValues, path)));
+      });
+      if (validateOn === "change" && validators[path]) scheduleValidation(path);
+    },
+
+    blur(path: FieldPath<T>) {
+      setFlag(touched, path, true);
+      if (validateOn === "blur" && validators[path]) runValidator(path);
+    },
+
+    setFieldError(path: FieldPath<T>, error: string | null) {
+      setError(path, error);
+    },
+
+    clearErrors() {
+      errors.set({});
+    },
+
+    validateField(path: FieldPath<T>) {
+      return runValidator(path);
+    },
+
+    validateForm: validateAll,
+
+    validate(validator: (values: T) => FieldErrors) {
+      const validationErrors = validator(current());
+      errors.set(validationErrors);
+      return Object.keys(validationErrors).length === 0;
+    },
+
+    submit<Result>(handler: (values: T, signal: AbortSignal) => Promise<Result>) {
+      if (pendingSubmit) return pendingSubmit as Promise<Result | undefined>;
+
+      batch(() => {
+        submitCount.update((prev) => (prev ?? 0) + 1);
+        submitErrorPaths.forEach((path) => setError(path, null));
+      });
+      submitErrorPaths = [];
+      const attempt = (async () => {
+        if (!await validateAll()) return undefined;
+        try {
+          const call = submission.execute({ handler, values: current() });
+          const result = await call as Result;
+          return wasCancelled(call) ? undefined : result;
+        } catch (error) {
+          const fieldErrors = mapSubmitErrors(error as Error);
+          if (fieldErrors) {
+            submitErrorPaths = Object.keys(fieldErrors);
+            errors.update((prev) => ({ ...prev, ...fieldErrors }));
+          }
+          return undefined;
+        }
+      })();
+
+      pendingSubmit = attempt;
+      attempt.finally(() => {
+        pendingSubmit = null;
+      });
+      return attempt;
+    },
+
+    fieldArray: fieldArray as FormInstance<T>["fieldArray"],
+
+    reset() {
+      [...new Set([...timers.keys(), ...controllers.keys()])].forEach(cancelValidation);
+      submitErrorPaths = [];
+      batch(() => {
+        submission.reset();
+        values.set(initialValues);
+        errors.set({});
+        touched.set({});
+        dirty.set({});
+        validating.set({});
+        submitCount.set(0);
+      });
+    },
+
+    get isValid() {
+      const currentErrors = errors.value || {};
+      return Object.keys(currentErrors).length === 0;
+    },
+  };
+}
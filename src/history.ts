@@ -0,0 +1,129 @@
+import { State } from "./state.ts";
+import { computed } from "./computed.ts";
+import type {
+  HistoryOptions,
+  HistoryStateInstance,
+  StateInstance,
+  StateValue,
+} from "./types.ts";
+
+/**
+ * Add undo/redo history to an existing state instance
+ * Only changes made through the returned instance are recorded.
+ * @param state - State instance to track
+ * @param options - History options (max depth)
+ * @returns HistoryStateInstance with undo/redo utilities
+ */
+export function withHistory<T>(
+  state: StateInstance<T>,
+  options: HistoryOptions = {},
+): HistoryStateInstance<T> {
+  const { maxDepth = 100 } = options;
+
+  const past = State<StateValue<T>[]>([]);
+  const future = State<StateValue<T>[]>([]);
+
+  const canUndo = computed([past], (entries) => (entries?.length ?? 0) > 0);
+  const canRedo = computed([future], (entries) => (entries?.length ?? 0) > 0);
+
+  // A depth of 0 or less disables history
+  const keepLast = (entries: StateValue<T>[]) => {
+    return maxDepth > 0 ? entries.slice(-maxDepth) : [];
+  };
+
+  // Nesting depth of transaction() calls
+  let transactionDepth = 0;
+
+  const record = (previous: StateValue<T>) => {
+    if (transactionDepth > 0 || Object.is(previous, state.value)) return;
+    past.update((prev) => keepLast([...(prev || []), previous]));
+    future.set([]);
+  };
+
+  const tracked = (change: () => void) => {
+    const previous = state.value;
+    change();
+    record(previous);
+  };
+
+  return {
+    $state: state.$state,
+
+    get value() {
+      return state.value;
+    },
+
+    set(value: StateValue<T>) {
+      tracked(() => state.set(value));
+      return value;
+    },
+
+    update(updater: (prev: StateValue<T>) => StateValue<T>) {
+      tracked(() => state.update(updater));
+    },
+
+    reset() {
+      tracked(() => state.reset());
+    },
+
+    subscribe: state.subscribe,
+
+    canUndo,
+    canRedo,
+
+    undo() {
+      const entries = past.value || [];
+      if (entries.length === 0) return;
+
+      const previous = entries[entries.length - 1];
+      past.set(entries.slice(0, -1));
+      future.update((prev) => [state.value, ...(prev || [])]);
+      state.set(previous);
+    },
+
+    redo() {
+      const entries = future.value || [];
+      if (entries.length === 0) return;
+
+      const [next, ...rest] = entries;
+      future.set(rest);
+      past.update((prev) => keepLast([...(prev || []), state.value]));
+      state.set(next);
+    },
+
+    transaction(fn: () => void) {
+      const previous = state.value;
+      transactionDepth++;
+      try {
+        fn();
+      } finally {
+        transactionDepth--;
+        if (transactionDepth === 0) record(previous);
+      }
+    },
+
+    clearHistory() {
+      past.set([]);
+      future.set([]);
+    },
+
+    dispose() {
+      state.dispose();
+      canUndo.dispose();
+      canRedo.dispose();
+    },
+  };
+}
+
+/**
+ * Create a new state instance with undo/redo history
+ * @param initialValue - The initial state value
+ * @param options - History options (max depth)
+ * @returns HistoryStateInstance with undo/redo utilities
+ */
+export function historyState<T>(
+  initialValue: StateValue<T> = null,
+  options: HistoryOptions = {},
+): HistoryStateInstance<T> {
+  return withHistory(State<T>(initialValue), options);
+}
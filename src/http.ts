@@ -0,0 +1,170 @@
+import { isPlainObject } from "./object.ts";
+import type {
+  FetchStateOptions,
+  HttpRequest,
+  QueryParams,
+  RequestInterceptor,
+  ResponseInterceptor,
+  ResponseParser,
+} from "./types.ts";
+
+/**
+ * Error thrown by fetchState for responses with a non-2xx status
+ */
+export class HttpError<Body = unknown> extends Error {
+  /** HTTP status code */
+  readonly status: number;
+  /** HTTP status text */
+  readonly statusText: string;
+  /** Response headers */
+  readonly headers: Headers;
+  /** Response body, parsed as JSON when the response says so, else text */
+  readonly body: Body;
+  /** URL of the failed request */
+  readonly url: string;
+
+  constructor(response: Response, body: Body) {
+    super(`HTTP ${response.status}: ${response.statusText}`);
+    this.name = "HttpError";
+    this.status = response.status;
+    this.statusText = response.statusText;
+    this.headers = response.headers;
+    this.body = body;
+    this.url = response.url;
+  }
+}
+
+const toList = <T>(value: T | readonly T[] | undefined): readonly T[] => {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value as T];
+};
+
+/**
+ * Fill ":name" placeholders of a URL template from the params
+ * @returns The URL and the params it didn't use
+ */
+function fillTemplate(template: string, params: unknown) {
+  const rest: Record<string, unknown> = isPlainObject(params) ? { ...params } : {};
+  const url = template.replace(/:([A-Za-z_]\w*)/g, (_match, name: string) => {
+    const value = isPlainObject(params) ? params[name] : params;
+    delete rest[name];
+    return encodeURIComponent(String(value ?? ""));
+  });
+  return { url, rest };
+}
+
+function withQuery(url: string, query: QueryParams) {
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    for (const item of toList(value)) {
+      if (item !== null && item !== undefined) search.append(name, String(item));
+    }
+  }
+  const encoded = search.toString();
+  if (!encoded) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}${encoded}`;
+}
+
+async function parseResponse<T>(response: Response, parse: ResponseParser<T>) {
+  if (typeof parse === "function") return parse(response);
+  switch (parse) {
+    case "text":
+      return await response.text() as T;
+    case "blob":
+      return await response.blob() as T;
+    case "stream":
+      return response.body as T;
+    case "json": {
+      // Empty bodies, e.g. 204 No Content, parse to null
+      const text = await response.text();
+      return (text ? JSON.parse(text) : null) as T;
+    }
+  }
+}
+
+async function readErrorBody(response: Response) {
+  try {
+    const text = await response.text();
+    const isJson = response.headers.get("content-type")?.includes("json");
+    return isJson && text ? JSON.parse(text) : text;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the request function behind fetchState
+ * @internal
+ */
+export function createRequest<T, Params>(
+  url: string,
+  options: FetchStateOptions<T, Params>,
+): (params: Params, signal: AbortSignal) => Promise<T> {
+  const {
+    body,
+    query,
+    parse = "json",
+    onRequest,
+    onResponse,
+    // Options handled by fetchState itself
+    strategy: _strategy,
+    retry: _retry,
+    poll: _poll,
+    name: _name,
+    client: _client,
+    key: _key,
+    staleTime: _staleTime,
+    ...init
+  } = options;
+  const requestInterceptors: readonly RequestInterceptor[] = toList(onRequest);
+  const responseInterceptors: readonly ResponseInterceptor[] = toList(onResponse);
+  const method = (init.method ?? "GET").toUpperCase();
+  const hasNoBody = method === "GET" || method === "HEAD";
+
+  // Interceptors get their own copy of the headers, so retries start clean
+  const send = async (request: HttpRequest) => {
+    let current: HttpRequest = { ...request, headers: new Headers(request.headers) };
+    for (const intercept of requestInterceptors) {
+      current = await intercept(current);
+    }
+    const { url: target, ...requestInit } = current;
+    return fetch(target, requestInit);
+  };
+
+  return async (params, signal) => {
+    const filled = fillTemplate(url, params);
+    const leftover = Object.keys(filled.rest).length > 0 ? filled.rest : undefined;
+
+    const queryParams = typeof query === "function" ? query(params) : query;
+    const target = withQuery(
+      filled.url,
+      queryParams ?? (hasNoBody ? filled.rest as QueryParams : {}),
+    );
+
+    let payload = typeof body === "function" ? body(params) : body;
+    if (payload === undefined && !hasNoBody) payload = leftover;
+
+    const headers = new Headers(init.headers);
+    if (isPlainObject(payload) || Array.isArray(payload)) {
+      payload = JSON.stringify(payload);
+      if (!headers.has("content-type")) headers.set("content-type", "application/json");
+    }
+
+    const request: HttpRequest = {
+      ...init,
+      url: target,
+      headers,
+      body: payload as BodyInit | null | undefined,
+      signal,
+    };
+    let response = await send(request);
+    for (const intercept of responseInterceptors) {
+      response = await intercept(response, request, send);
+    }
+
+    if (!response.ok) {
+      throw new HttpError(response, await readErrorBody(response));
+    }
+    return parseResponse(response, parse);
+  };
+}
@@ -0,0 +1,123 @@
+import { asyncState } from "./async.ts";
+import { computed } from "./computed.ts";
+import { State } from "./state.ts";
+import type {
+  InfiniteData,
+  InfiniteStateInstance,
+  InfiniteStateOptions,
+  StateValue,
+} from "./types.ts";
+
+type LoadMode = "first" | "next" | "refetch";
+
+/**
+ * Create an async state that accumulates pages, for "load more" and cursor APIs
+ * First page loads and refetches abort the running load; fetchNextPage joins it.
+ * @param handler - Async function loading one page, receives the page param
+ * and an AbortSignal
+ * @param options - First page param, next page param getter and retry options
+ * @returns InfiniteStateInstance with page loading utilities
+ */
+export function infiniteState<Page, PageParam>(
+  handler: (pageParam: PageParam, signal: AbortSignal) => Promise<Page>,
+  options: InfiniteStateOptions<Page, PageParam>,
+): InfiniteStateInstance<Page, PageParam> {
+  const { initialPageParam, getNextPageParam, retry } = options;
+
+  type Data = InfiniteData<Page, PageParam>;
+
+  const nextParam = (value: StateValue<Data>) => {
+    const pages = value?.pages ?? [];
+    if (pages.length === 0) return null;
+    return getNextPageParam(pages[pages.length - 1], pages) ?? null;
+  };
+
+  // Load pages from the first param, up to `count` of them
+  const loadFromStart = async (count: number, signal: AbortSignal): Promise<Data> => {
+    const pages: Page[] = [];
+    const pageParams: PageParam[] = [];
+    let param: PageParam | null = initialPageParam;
+    while (param !== null && pages.length < count) {
+      pages.push(await handler(param, signal));
+      pageParams.push(param);
+      param = getNextPageParam(pages[pages.length - 1], pages) ?? null;
+    }
+    return { pages, pageParams };
+  };
+
+  const load = async (mode: LoadMode, signal: AbortSignal): Promise<Data> => {
+    const previous = pages.data.value;
+    if (mode === "first") return loadFromStart(1, signal);
+    if (mode === "refetch") {
+      return loadFromStart(Math.max(previous?.pages.length ?? 0, 1), signal);
+    }
+
+    const param = nextParam(previous);
+    if (param === null || !previous) return previous ?? loadFromStart(1, signal);
+    const page = await handler(param, signal);
+    return {
+      pages: [...previous.pages, page],
+      pageParams: [...previous.pageParams, param],
+    };
+  };
+
+  const pages = asyncState<LoadMode, Data>(load, null, { strategy: "takeLatest", retry });
+  const hasNextPage = computed([pages.data], (value) => nextParam(value) !== null);
+  const isFetchingNextPage = State<boolean>(false);
+
+  // Load in flight, joined by fetchNextPage
+  let running: Promise<Data> | null = null;
+
+  const start = (mode: LoadMode) => {
+    const promise = pages.execute(mode);
+    running = promise;
+    const clear = () => {
+      if (running === promise) running = null;
+    };
+    promise.then(clear, clear);
+    return promise;
+  };
+
+  return {
+    ...pages,
+    hasNextPage,
+    isFetchingNextPage,
+
+    execute() {
+      return start("first");
+    },
+
+    fetchNextPage() {
+      // Joining a running load doesn't make it a next-page load
+      if (running) return running;
+
+      isFetchingNextPage.set(true);
+      const promise = start("next");
+      const done = () => isFetchingNextPage.set(false);
+      promise.then(done, done);
+      return promise;
+    },
+
+    refetch() {
+      return start("refetch");
+    },
+
+    get isLoading() {
+      return pages.isLoading;
+    },
+
+    get hasError() {
+      return pages.hasError;
+    },
+
+    get hasData() {
+      return pages.hasData;
+    },
+
+    reset() {
+      running = null;
+      pages.reset();
+      isFetchingNextPage.set(false);
+    },
+  };
+}
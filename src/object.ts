@@ -0,0 +1,8 @@
+/**
+ * Whether a value is an object literal or created with `new Object()`
+ * @internal
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype;
+}
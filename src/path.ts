@@ -0,0 +1,45 @@
+/**
+ * Split a dotted path such as "address.city" or "items.0.name"
+ * @internal
+ */
+export function toSegments(path: string): string[] {
+  return path === "" ? [] : path.split(".");
+}
+
+/**
+ * Read the value at a dotted path
+ * @internal
+ */
+export function getPath(source: unknown, path: string): unknown {
+  return toSegments(path).reduce<unknown>((current, segment) => {
+    if (current === null || typeof current !== "object") return undefined;
+    return (current as Record<string, unknown>)[segment];
+  }, source);
+}
+
+/**
+ * Return a copy of `source` with the value at a dotted path replaced
+ * Missing containers are created as arrays for numeric segments, else objects.
+ * @internal
+ */
+export function setPath<T>(source: T, path: string, value: unknown): T {
+  const write = (current: unknown, segments: string[]): unknown => {
+    if (segments.length === 0) return value;
+
+    const [segment, ...rest] = segments;
+    const container = current !== null && typeof current === "object"
+      ? current
+      : /^\d+$/.test(segment) ? [] : {};
+    const copy = Array.isArray(container)
+      ? [...container]
+      : { ...container as Record<string, unknown> };
+
+    (copy as Record<string, unknown>)[segment] = write(
+      (container as Record<string, unknown>)[segment],
+      rest,
+    );
+    return copy;
+  };
+
+  return write(source, toSegments(path)) as T;
+}
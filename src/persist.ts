@@ -0,0 +1,204 @@
+import { watchGlobalUpdates } from "./scope.ts";
+import { State } from "./state.ts";
+import {
+  hasLocalStorage,
+  jsonSerializer,
+  localStorageAdapter,
+  memoryAdapter,
+} from "./storage.ts";
+import type {
+  PersistedStateInstance,
+  PersistOptions,
+  StateValue,
+  StorageAdapter,
+} from "./types.ts";
+
+const defaultStorage = (): StorageAdapter => {
+  return hasLocalStorage() ? localStorageAdapter() : memoryAdapter();
+};
+
+/** Stored wrapper recording which version of the value shape was saved */
+interface Envelope {
+  readonly $version: number;
+  readonly value: unknown;
+}
+
+const isEnvelope = (stored: unknown): stored is Envelope => {
+  return typeof stored === "object" && stored !== null &&
+    typeof (stored as Envelope).$version === "number" && "value" in stored;
+};
+
+// Swallow failures of async adapter writes, like sync ones
+const settle = (result: void | Promise<void>) => {
+  if (result instanceof Promise) result.catch(() => {});
+};
+
+/**
+ * Create a state that is saved to and restored from storage
+ * @param key - Storage key
+ * @param initialValue - Initial value if nothing is stored
+ * @param options - Storage adapter, serializer, cross-tab sync and versioning
+ * @returns PersistedStateInstance that syncs with storage
+ */
+export function persistedState<T>(
+  key: string,
+  initialValue: StateValue<T> = null,
+  options: PersistOptions = {},
+): PersistedStateInstance<T> {
+  const {
+    storage = defaultStorage(),
+    serializer = jsonSerializer,
+    sync = false,
+    version = 0,
+    migrate,
+    onMigrationError,
+  } = options;
+
+  const state = State<T>(initialValue);
+  const hydrated = State<boolean>(false);
+
+  // Set while writing a value that came from storage, so it isn't saved back
+  let applyingStored = false;
+  // Set once the value changed locally, so late hydration doesn't clobber it
+  let changedLocally = false;
+  // Raw form of the value last saved or loaded, to ignore echoes of our own writes
+  let lastRaw: string | null = null;
+
+  // Bring a stored value up to the current version, one step at a time
+  const upgrade = (stored: unknown, from: number): StateValue<T> => {
+    if (from > version) {
+      throw new Error(
+        `Stored version ${from} of "${key}" is newer than version ${version}`,
+      );
+    }
+    if (from < version && !migrate) {
+      throw new Error(`No migrate function to upgrade "${key}" from version ${from}`);
+    }
+
+    let current = stored;
+    for (let step = from; step < version; step++) {
+      current = migrate!(step, current);
+    }
+    return current as StateValue<T>;
+  };
+
+  const decode = (raw: string | null) => {
+    if (raw === null) return { value: initialValue, migrated: false };
+
+    let stored: unknown;
+    try {
+      stored = serializer.deserialize(raw);
+    } catch {
+      return { value: initialValue, migrated: false };
+    }
+
+    // Values saved without an envelope predate versioning
+    const from = isEnvelope(stored) ? stored.$version : 0;
+    const value = isEnvelope(stored) ? stored.value : stored;
+    try {
+      return { value: upgrade(value, from), migrated: from !== version };
+    } catch (error) {
+      onMigrationError?.(error as Error, from, value);
+      return { value: initialValue, migrated: false };
+    }
+  };
+
+  const applyStored = (raw: string | null) => {
+    if (raw === lastRaw) return;
+    lastRaw = raw;
+    const { value, migrated } = decode(raw);
+    applyingStored = true;
+    try {
+      state.set(value);
+    } finally {
+      applyingStored = false;
+    }
+    // Save the upgraded shape so the migration runs only once
+    if (migrated) save(value);
+  };
+
+  const mode = sync === true ? (storage.subscribe ? "storage" : "broadcast") : sync;
+  const channel = mode === "broadcast" && typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel(`raptor-state:${key}`)
+    : null;
+
+  const save = (value: StateValue<T>) => {
+    try {
+      if (value === null || value === undefined) {
+        lastRaw = null;
+        settle(storage.removeItem(key));
+        channel?.postMessage(null);
+      } else {
+        const raw = serializer.serialize({ $version: version, value });
+        lastRaw = raw;
+        settle(storage.setItem(key, raw));
+        channel?.postMessage(raw);
+      }
+    } catch {
+      // Ignore storage errors
+    }
+  };
+
+  // Scoped updates, e.g. from server renders, stay out of storage
+  watchGlobalUpdates(state.$state, (value) => {
+    if (applyingStored) return;
+    changedLocally = true;
+    save(value);
+  });
+
+  // Load the stored value, synchronously when the adapter allows it
+  let stored: string | null | Promise<string | null>;
+  try {
+    stored = storage.getItem(key);
+  } catch {
+    stored = null;
+  }
+
+  let hydration: Promise<void>;
+  if (stored instanceof Promise) {
+    hydration = stored
+      .then((raw) => {
+        if (!changedLocally && raw !== null) applyStored(raw);
+      })
+      .catch(() => {})
+      .then(() => {
+        hydrated.set(true);
+      });
+  } else {
+    if (stored !== null) applyStored(stored);
+    hydrated.set(true);
+    hydration = Promise.resolve();
+  }
+
+  // Cross-tab sync
+  let stopSync = () => {};
+  if (mode === "storage" && storage.subscribe) {
+    stopSync = storage.subscribe(key, applyStored);
+  } else if (channel) {
+    channel.onmessage = (event: MessageEvent<string | null>) => {
+      applyStored(event.data);
+    };
+    stopSync = () => channel.close();
+  }
+
+  return {
+    $state: state.$state,
+
+    get value() {
+      return state.value;
+    },
+
+    set: state.set,
+    update: state.update,
+    reset: state.reset,
+    subscribe: state.subscribe,
+
+    dispose() {
+      state.dispose();
+      stopSync();
+    },
+
+    hydrated,
+    hydration,
+  };
+}
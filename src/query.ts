@@ -0,0 +1,217 @@
+import { asyncState } from "./async.ts";
+import type {
+  AsyncStateInstance,
+  QueryClient,
+  QueryInstance,
+  QueryKey,
+  QueryOptions,
+  StateValue,
+} from "./types.ts";
+
+interface QueryEntry {
+  readonly key: QueryKey;
+  readonly state: AsyncStateInstance<unknown>;
+  /** Time of the last successful fetch, 0 when stale */
+  updatedAt: number;
+  /** Handles not disposed yet, the entry is kept while there are any */
+  handles: number;
+  /** Time the last handle was disposed */
+  releasedAt: number;
+  staleTime: number;
+  cacheTime: number;
+}
+
+const toParts = (key: QueryKey): readonly unknown[] => {
+  return typeof key === "string" ? [key] : key;
+};
+
+const hashKey = (key: QueryKey) => JSON.stringify(toParts(key));
+
+// A key matches a filter when the filter's parts are a prefix of its parts
+const matchesKey = (key: QueryKey, filter: QueryKey) => {
+  const parts = toParts(key);
+  const prefix = toParts(filter);
+  return prefix.length <= parts.length &&
+    prefix.every((part, i) => JSON.stringify(part) === JSON.stringify(parts[i]));
+};
+
+/**
+ * Create a query client that caches async results by key
+ * Handles for the same key share one data/loading/error entry, and
+ * concurrent fetches for a key are deduplicated into one request.
+ * @param defaults - Default staleTime/cacheTime/retry for every query
+ * @returns QueryClient instance
+ */
+export function createQueryClient(defaults: QueryOptions = {}): QueryClient {
+  const entries = new Map<string, QueryEntry>();
+
+  const isStale = (entry: QueryEntry) => {
+    return entry.updatedAt === 0 ||
+      Date.now() - entry.updatedAt >= entry.staleTime;
+  };
+
+  // Drop entries without handles for longer than their cacheTime
+  const collect = () => {
+    const now = Date.now();
+    entries.forEach((entry, hash) => {
+      if (entry.handles > 0 || entry.state.isLoading) return;
+      if (now - entry.releasedAt >= entry.cacheTime) entries.delete(hash);
+    });
+  };
+
+  // Re-register an entry if it was collected
+  const touch = (entry: QueryEntry) => {
+    const hash = hashKey(entry.key);
+    if (!entries.has(hash)) entries.set(hash, entry);
+  };
+
+  const fetchEntry = (entry: QueryEntry) => {
+    touch(entry);
+    return entry.state.execute();
+  };
+
+  const matching = (key?: QueryKey) => {
+    collect();
+    return [...entries.values()].filter((entry) => {
+      return key === undefined || matchesKey(entry.key, key);
+    });
+  };
+
+  return {
+    query<Data>(
+      key: QueryKey,
+      fetcher: (signal: AbortSignal) => Promise<Data>,
+      options: QueryOptions = {},
+    ): QueryInstance<Data> {
+      collect();
+      const staleTime = options.staleTime ?? defaults.staleTime ?? 0;
+      const cacheTime = options.cacheTime ?? defaults.cacheTime ?? 5 * 60_000;
+      const retry = options.retry ?? defaults.retry;
+
+      const hash = hashKey(key);
+      let entry = entries.get(hash);
+      if (!entry) {
+        const created: QueryEntry = {
+          key,
+          // "takeFirst" joins callers onto the fetch already in flight
+          state: asyncState<unknown, unknown>(async (_params, signal) => {
+            const result = await fetcher(signal);
+            created.updatedAt = Date.now();
+            return result;
+          }, null, { strategy: "takeFirst", retry }),
+          updatedAt: 0,
+          handles: 0,
+          releasedAt: 0,
+          staleTime,
+          cacheTime,
+        };
+        entry = created;
+        entries.set(hash, entry);
+      } else {
+        // Handles sharing an entry get the strictest of their timings
+        if (options.staleTime !== undefined) {
+          entry.staleTime = Math.min(entry.staleTime, options.staleTime);
+        }
+        if (options.cacheTime !== undefined) {
+          entry.cacheTime = Math.max(entry.cacheTime, options.cacheTime);
+        }
+      }
+
+      const shared = entry;
+      const state = shared.state as AsyncStateInstance<Data>;
+      shared.handles++;
+      touch(shared);
+      let released = false;
+
+      return {
+        key,
+        data: state.data,
+        loading: state.loading,
+        error: state.error,
+        attempt: state.attempt,
+
+        execute() {
+          if (!isStale(shared) && !state.isLoading) {
+            return Promise.resolve(state.data.value as Data);
+          }
+          return fetchEntry(shared) as Promise<Data>;
+        },
+
+        refetch() {
+          shared.updatedAt = 0;
+          return fetchEntry(shared) as Promise<Data>;
+        },
+
+        invalidate() {
+          shared.updatedAt = 0;
+        },
+
+        cancel: state.cancel,
+
+        get isLoading() {
+          return state.isLoading;
+        },
+
+        get hasError() {
+          return state.hasError;
+        },
+
+        get hasData() {
+          return state.hasData;
+        },
+
+        get isStale() {
+          return isStale(shared);
+        },
+
+        reset() {
+          shared.updatedAt = 0;
+          state.reset();
+        },
+
+        dispose() {
+          if (released) return;
+          released = true;
+          shared.handles--;
+          if (shared.handles === 0) shared.releasedAt = Date.now();
+        },
+      };
+    },
+
+    invalidate(key?: QueryKey) {
+      matching(key).forEach((entry) => {
+        const loaded = entry.updatedAt > 0;
+        entry.updatedAt = 0;
+        if (loaded) {
+          // Errors are surfaced through the entry's error state
+          fetchEntry(entry).catch(() => {});
+        }
+      });
+    },
+
+    async refetch(key?: QueryKey) {
+      await Promise.allSettled(matching(key).map((entry) => {
+        entry.updatedAt = 0;
+        return fetchEntry(entry);
+      }));
+    },
+
+    getQueryData<Data>(key: QueryKey) {
+      const entry = entries.get(hashKey(key));
+      return entry?.state.data.value as StateValue<Data>;
+    },
+
+    setQueryData<Data>(key: QueryKey, value: StateValue<Data>) {
+      const entry = entries.get(hashKey(key));
+      if (!entry) return;
+      entry.state.data.set(value);
+      entry.updatedAt = Date.now();
+      touch(entry);
+    },
+
+    clear() {
+      entries.forEach((entry) => entry.state.cancel());
+      entries.clear();
+    },
+  };
+}
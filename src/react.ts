@@ -1,31 +1,100 @@
 /**
  * React integration hooks for RaptorState
- * 
- * Installation:
- * npm install effector-react
- * 
+ *
  * Usage:
- * import { useUnit } from "effector-react"
- * import { useRaptorState } from "raptor-state"
- * 
- * const MyComponent = () => {
- *   const myState = State(0)
- *   const value = useRaptorState(myState)
+ * import { useRaptorState } from "raptor-state/react"
+ *
+ * const count = State(0)
+ *
+ * const Counter = () => {
+ *   const value = useRaptorState(count)
  *   return <div>{value}</div>
  * }
  */
 
-import type { StateInstance, AsyncStateInstance, ComputedInstance } from "./types.ts";
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { ReactNode } from "react";
+import type { Scope } from "effector";
+import { resolveEquals } from "./equals.ts";
+import { withScope } from "./scope.ts";
+import { State } from "./state.ts";
+import type {
+  AsyncStateInstance,
+  ComputedInstance,
+  Equality,
+  StateInstance,
+  StateOptions,
+  StateValue,
+} from "./types.ts";
+
+/** Anything exposing a current value and change notifications */
+export interface Subscribable<T> {
+  readonly value: T;
+  readonly subscribe: (fn: (value: T) => void) => () => void;
+}
+
+const ScopeContext = createContext<Scope | null>(null);
+
+/**
+ * Make the hooks below read and write states in a forked scope
+ * Render one per server request so concurrent renders stay isolated.
+ * @param props - Scope created with fork(), null for global states
+ * @returns The children, reading the given scope
+ */
+export function ScopeProvider(
+  { scope, children }: { scope: Scope | null; children?: ReactNode },
+): ReactNode {
+  return createElement(ScopeContext.Provider, { value: scope }, children);
+}
+
+/**
+ * Read a value and re-render when it changes
+ */
+function useSubscribable<T>(source: Subscribable<T>): T {
+  const scope = useContext(ScopeContext);
+  const subscribe = useSourceSubscription(source);
+  const getSnapshot = () => withScope(scope, () => source.value);
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Subscribe function for useSyncExternalStore, stable while the source and
+ * scope are
+ */
+function useSourceSubscription<T>(source: Subscribable<T>) {
+  const scope = useContext(ScopeContext);
+  return useCallback(
+    (onChange: () => void) => withScope(scope, () => source.subscribe(() => onChange())),
+    [source, scope],
+  );
+}
+
+/**
+ * Run a function in the given scope, keeping it as is for global states
+ */
+function bindScope<Args extends unknown[], R>(
+  scope: Scope | null,
+  fn: (...args: Args) => R,
+): (...args: Args) => R {
+  return scope ? (...args) => withScope(scope, () => fn(...args)) : fn;
+}
 
 /**
  * React hook for basic state
- * Note: Requires useUnit from effector-react to be available
  * @param state - State instance from State()
  * @returns Current state value that triggers re-renders
  */
-export function useRaptorState<T>(state: StateInstance<T>): T | null | undefined {
-  // @ts-ignore - useUnit should be imported by user from effector-react
-  return globalThis.useUnit ? globalThis.useUnit(state.$state) : state.value;
+export function useRaptorState<T>(state: StateInstance<T>): StateValue<T> {
+  return useSubscribable(state);
 }
 
 /**
@@ -34,52 +103,230 @@ export function useRaptorState<T>(state: StateInstance<T>): T | null | undefined
  * @returns Current computed value that triggers re-renders
  */
 export function useComputed<T>(computed: ComputedInstance<T>): T {
-  // @ts-ignore - useUnit should be imported by user from effector-react
-  return globalThis.useUnit ? globalThis.useUnit(computed.$state) : computed.value;
+  return useSubscribable(computed);
+}
+
+/**
+ * React hook reading part of a state
+ * Re-renders only when the selected value changes according to `equals`.
+ * @param source - State, computed or collection instance
+ * @param selector - Function picking the value the component needs
+ * @param equals - Comparison of selected values (defaults to "reference")
+ * @returns Selected value
+ */
+export function useRaptorSelector<T, U>(
+  source: Subscribable<T>,
+  selector: (value: T) => U,
+  equals?: Equality<U>,
+): U {
+  const scope = useContext(ScopeContext);
+  const subscribe = useSourceSubscription(source);
+  const isEqual = resolveEquals(equals);
+  // Last selection, reused while the value and selector are unchanged
+  const cache = useRef<{ value: T; selector: (value: T) => U; selected: U } | null>(
+    null,
+  );
+
+  const getSnapshot = () => {
+    const value = withScope(scope, () => source.value);
+    const cached = cache.current;
+    if (cached && Object.is(cached.value, value) && cached.selector === selector) {
+      return cached.selected;
+    }
+
+    const next = selector(value);
+    // Keep the previous reference so React sees no change
+    const selected = cached && isEqual(cached.selected, next) ? cached.selected : next;
+    cache.current = { value, selector, selected };
+    return selected;
+  };
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 }
 
 /**
  * React hook for async state
+ * Re-renders when data, loading, error or attempt change.
  * @param asyncStateInstance - Async state instance from asyncState()
  * @returns Object with data, loading, error values
  */
 export function useAsyncState<T>(asyncStateInstance: AsyncStateInstance<T>): {
-  data: T | null;
+  data: StateValue<T>;
   loading: boolean;
-  error: unknown;
+  error: Error | null;
+  attempt: number;
   isLoading: boolean;
   hasError: boolean;
   hasData: boolean;
-  execute: AsyncStateInstance<T>['execute'];
-  reset: AsyncStateInstance<T>['reset'];
+  execute: AsyncStateInstance<T>["execute"];
+  cancel: AsyncStateInstance<T>["cancel"];
+  reset: AsyncStateInstance<T>["reset"];
 } {
-  // @ts-ignore - useUnit should be imported by user from effector-react
-  const useUnitFn = globalThis.useUnit || ((store: { getState: () => unknown }) => store.getState());
-  
-  const data = useUnitFn(asyncStateInstance.data.$state);
-  const loading = useUnitFn(asyncStateInstance.loading.$state);
-  const error = useUnitFn(asyncStateInstance.error.$state);
-  
+  const scope = useContext(ScopeContext);
+  const data = useSubscribable(asyncStateInstance.data);
+  const loading = useSubscribable(asyncStateInstance.loading) === true;
+  const error = useSubscribable(asyncStateInstance.error) ?? null;
+  const attempt = useSubscribable(asyncStateInstance.attempt) ?? 0;
+
   return {
     data,
     loading,
     error,
-    execute: asyncStateInstance.execute,
-    isLoading: asyncStateInstance.isLoading,
-    hasError: asyncStateInstance.hasError,
-    hasData: asyncStateInstance.hasData,
-    reset: asyncStateInstance.reset,
+    attempt,
+    execute: bindScope(scope, asyncStateInstance.execute),
+    cancel: bindScope(scope, asyncStateInstance.cancel),
+    isLoading: loading,
+    hasError: error !== null,
+    hasData: data !== null && data !== undefined,
+    reset: bindScope(scope, asyncStateInstance.reset),
   };
 }
 
+/** Execution started for Suspense, with the params it was started with */
+interface SuspenseRequest {
+  readonly key: string;
+  readonly promise: Promise<void>;
+}
+
+type SuspenseRequests = WeakMap<AsyncStateInstance<unknown>, SuspenseRequest>;
+
+// Requests of global states, and of each forked scope
+const globalRequests: SuspenseRequests = new WeakMap();
+const scopedRequests = new WeakMap<Scope, SuspenseRequests>();
+
+const requestsOf = (scope: Scope | null) => {
+  if (!scope) return globalRequests;
+  let requests = scopedRequests.get(scope);
+  if (!requests) {
+    requests = new WeakMap();
+    scopedRequests.set(scope, requests);
+  }
+  return requests;
+};
+
+/**
+ * Resolve once the instance stops loading
+ */
+function whenSettled(instance: AsyncStateInstance<unknown>): Promise<void> {
+  return new Promise((resolve) => {
+    let done = false;
+    const stop = instance.loading.subscribe((loading) => {
+      if (loading || done) return;
+      done = true;
+      resolve();
+      // The watcher may run before subscribe() has returned `stop`
+      queueMicrotask(() => stop());
+    });
+  });
+}
+
+/**
+ * React hook for async state inside `<Suspense>`
+ * Suspends while the call runs and throws its error for error boundaries.
+ * A call already in flight is reused; a new one starts when the params change.
+ * Call `reset()` on the instance to retry after an error. Data hydrated from
+ * the server counts as loaded, so it isn't fetched again.
+ * @param instance - Async state instance from asyncState()
+ * @param params - Params passed to execute, compared by their JSON form
+ * @returns The loaded data
+ */
+export function useAsyncStateSuspense<T>(
+  instance: AsyncStateInstance<T>,
+  params?: unknown,
+): T {
+  const { data, loading, error, attempt, hasData, execute } = useAsyncState(instance);
+  const scope = useContext(ScopeContext);
+  const suspenseRequests = requestsOf(scope);
+  const key = JSON.stringify(params ?? null);
+  const shared = instance as AsyncStateInstance<unknown>;
+  let request = suspenseRequests.get(shared);
+
+  if (loading) throw request?.promise ?? withScope(scope, () => whenSettled(shared));
+
+  // Data loaded elsewhere, e.g. on the server, counts as loaded for these params
+  if (!request && !error && hasData) {
+    request = { key, promise: Promise.resolve() };
+    suspenseRequests.set(shared, request);
+  }
+
+  // Attempt 0 without data means the instance was never run or was reset
+  if (!request || request.key !== key || (attempt === 0 && !hasData)) {
+    const promise = execute(params).then(() => {}, () => {});
+    suspenseRequests.set(shared, { key, promise });
+    throw promise;
+  }
+
+  if (error) throw error;
+  return data as T;
+}
+
 /**
- * Helper to create a React-compatible hook
- * Usage in your app:
- * 
- * import { useUnit } from "effector-react"
- * setupReactIntegration(useUnit)
+ * Call dispose() on a value and on each of its properties that have one
  */
-export function setupReactIntegration(useUnitHook: (store: unknown) => unknown) {
-  // @ts-ignore: Setting up global hook for React integration
-  globalThis.useUnit = useUnitHook;
+function disposeAll(value: unknown) {
+  if (typeof value !== "object" || value === null) return;
+  const targets = [value, ...Object.values(value)];
+  for (const target of targets) {
+    const { dispose } = (target ?? {}) as { dispose?: unknown };
+    if (typeof dispose === "function") dispose.call(target);
+  }
+}
+
+/**
+ * Dispose a value when the component unmounts
+ * Disposal waits a tick so StrictMode's simulated unmount and remount keeps it.
+ */
+function useDisposeOnUnmount<V>(value: V, dispose: (value: V) => void) {
+  const pending = useRef<ReturnType<typeof setTimeout>>();
+  useEffect(() => {
+    clearTimeout(pending.current);
+    return () => {
+      pending.current = setTimeout(() => dispose(value));
+    };
+  }, [value]);
+}
+
+/**
+ * React hook creating a state owned by the component
+ * The state is created on the first render and disposed on unmount.
+ * @param initialValue - Initial state value
+ * @param options - State options
+ * @returns The current value and the state instance
+ */
+export function useLocalState<T>(
+  initialValue: StateValue<T>,
+  options?: StateOptions<T>,
+): readonly [StateValue<T>, StateInstance<T>] {
+  const [state] = useState(() => State<T>(initialValue, options));
+  useDisposeOnUnmount(state, (owned) => owned.dispose());
+  return [useSubscribable(state), state];
+}
+
+/**
+ * Create a Provider giving each mounted tree its own set of states
+ * The factory runs once per Provider; everything it returns that has a
+ * dispose() method is disposed when the Provider unmounts.
+ * @param factory - Function creating the states, e.g. `() => ({ count: State(0) })`
+ * @returns The Provider component and the hook reading its states
+ */
+export function createStateContext<Value extends object>(
+  factory: () => Value,
+): readonly [(props: { children?: ReactNode }) => ReactNode, () => Value] {
+  const Context = createContext<Value | null>(null);
+
+  const Provider = ({ children }: { children?: ReactNode }) => {
+    const [value] = useState(factory);
+    useDisposeOnUnmount(value, disposeAll);
+    return createElement(Context.Provider, { value }, children);
+  };
+
+  const useValue = () => {
+    const value = useContext(Context);
+    if (value === null) {
+      throw new Error("createStateContext: hook used outside of its Provider");
+    }
+    return value;
+  };
+
+  return [Provider, useValue];
 }
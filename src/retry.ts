@@ -0,0 +1,77 @@
+import type { RetryOptions } from "./types.ts";
+
+/**
+ * Compute the wait before the next attempt
+ * @param options - Retry options
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @returns Delay in milliseconds
+ */
+export function retryDelay(options: RetryOptions, attempt: number): number {
+  const {
+    backoff = "exponential",
+    delay = 300,
+    maxDelay = 30_000,
+    jitter = true,
+  } = options;
+
+  const base = backoff === "exponential"
+    ? delay * 2 ** (attempt - 1)
+    : delay * attempt;
+  const capped = Math.min(base, maxDelay);
+
+  // Equal jitter: spread retries between half and the whole delay
+  return jitter ? capped / 2 + Math.random() * (capped / 2) : capped;
+}
+
+/**
+ * Wait for the given time, rejecting early when the signal aborts
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an async operation, retrying failures according to the options
+ * @param operation - Operation to run for each attempt
+ * @param options - Retry options, or a max attempts count
+ * @param signal - Stops retrying when aborted
+ * @param onAttempt - Called with the attempt number before each attempt
+ * @returns The first successful result
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions | number | undefined,
+  signal: AbortSignal,
+  onAttempt: (attempt: number) => void = () => {},
+): Promise<T> {
+  const config: RetryOptions = typeof options === "number"
+    ? { attempts: options }
+    : options ?? { attempts: 1 };
+  const { attempts = 3, shouldRetry = () => true } = config;
+
+  for (let attempt = 1;; attempt++) {
+    onAttempt(attempt);
+    try {
+      return await operation();
+    } catch (error) {
+      if (
+        signal.aborted ||
+        attempt >= attempts ||
+        !shouldRetry(error as Error, attempt)
+      ) {
+        throw error;
+      }
+      await sleep(retryDelay(config, attempt), signal);
+    }
+  }
+}
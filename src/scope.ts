@@ -0,0 +1,151 @@
+import { createEvent, createStore, createWatch, launch } from "effector";
+import type { EventCallable, Scope, Store, StoreWritable } from "effector";
+
+// Scope of the innermost withScope() call, null for the global one
+let activeScope: Scope | null = null;
+
+/** Named stores that serialize() and hydrate() exchange */
+const namedStores = new Map<string, {
+  readonly store: StoreWritable<unknown>;
+  readonly set: EventCallable<unknown>;
+}>();
+
+/**
+ * Scope reads and writes currently go to
+ * @internal
+ */
+export function currentScope(): Scope | null {
+  return activeScope;
+}
+
+/**
+ * Run a function with every state read and write going to the given scope
+ * Async states keep using the scope that was active when they were executed.
+ * @param scope - Scope created with effector's fork(), or null for global state
+ * @param fn - Function reading or writing states
+ * @returns The function's return value
+ */
+export function withScope<R>(scope: Scope | null, fn: () => R): R {
+  const previous = activeScope;
+  activeScope = scope;
+  try {
+    return fn();
+  } finally {
+    activeScope = previous;
+  }
+}
+
+/**
+ * Read a store in the active scope
+ * @internal
+ */
+export function readStore<T>(store: Store<T>): T {
+  return activeScope ? activeScope.getState(store) : store.getState();
+}
+
+/**
+ * Trigger an event in the active scope
+ * @internal
+ */
+export function writeEvent<T>(target: EventCallable<T>, params: T): void {
+  if (activeScope) {
+    launch({ target, params, defer: false, scope: activeScope });
+  } else {
+    target(params);
+  }
+}
+
+// Set in the global store only: forked scopes start from the default value
+const markGlobal = createEvent();
+const $isGlobal = createStore(false).on(markGlobal, () => true);
+markGlobal();
+
+/**
+ * Whether effector is applying an update to a forked scope
+ * getState() reads the scope of the running update, where $isGlobal is unset.
+ */
+function isScopedUpdate(): boolean {
+  return !$isGlobal.getState();
+}
+
+/**
+ * Watch updates of the global store only
+ * Effector runs watchers for every scope, so scoped updates are skipped,
+ * whether they come from withScope() or from effector's own scope APIs.
+ * @internal
+ */
+export function watchGlobalUpdates<T>(store: Store<T>, fn: (value: T) => void) {
+  return store.updates.watch((value) => {
+    if (!isScopedUpdate()) fn(value);
+  });
+}
+
+/**
+ * Call `fn` with the store's value in the active scope, then on each change
+ * @internal
+ */
+export function watchStore<T>(store: Store<T>, fn: (value: T) => void): () => void {
+  const scope = activeScope;
+  if (scope) {
+    fn(scope.getState(store));
+    return createWatch({ unit: store, fn, scope });
+  }
+  fn(store.getState());
+  return watchGlobalUpdates(store, fn);
+}
+
+/**
+ * Register a store under a stable name for serialize() and hydrate()
+ * A later store with the same name replaces the earlier one, with a warning.
+ * @returns Function removing the registration, if it's still this store's
+ * @internal
+ */
+export function registerName<T>(
+  name: string,
+  store: StoreWritable<T>,
+  set: EventCallable<T>,
+): () => void {
+  if (namedStores.has(name)) {
+    console.warn(`State name "${name}" is already registered, the earlier state is replaced`);
+  }
+  const entry = {
+    store: store as StoreWritable<unknown>,
+    set: set as EventCallable<unknown>,
+  };
+  namedStores.set(name, entry);
+  return () => {
+    if (namedStores.get(name) === entry) namedStores.delete(name);
+  };
+}
+
+/**
+ * Collect the values of named states that changed in a scope
+ * @param scope - Scope created with effector's fork()
+ * @returns Values keyed by state name, ready to be sent as JSON
+ */
+export function serialize(scope: Scope): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [name, { store }] of namedStores) {
+    const value = scope.getState(store);
+    if (!Object.is(value, store.defaultState)) values[name] = value;
+  }
+  return values;
+}
+
+/**
+ * Apply values produced by serialize() to named states
+ * Unknown names are ignored.
+ * @param data - Values keyed by state name
+ * @param scope - Scope to fill, global states when omitted
+ */
+export function hydrate(data: Record<string, unknown>, scope?: Scope): void {
+  const entries = Object.entries(data).filter(([name]) => namedStores.has(name));
+  if (entries.length === 0) return;
+
+  launch({
+    target: entries.map(([name]) => namedStores.get(name)!.set),
+    params: entries.map(([, value]) => value),
+    defer: false,
+    scope,
+  });
+}
@@ -0,0 +1,57 @@
+import type { EventCallable } from "effector";
+import { batch, setDraft } from "./batch.ts";
+
+/** Value a state held before its first write inside trackWrites() */
+interface Snapshot {
+  readonly target: EventCallable<unknown>;
+  readonly value: unknown;
+}
+
+// Snapshot maps of every open trackWrites() call
+const trackers: Map<object, Snapshot>[] = [];
+
+/**
+ * Report a state write to the open trackWrites() calls
+ * @internal
+ */
+export function noteWrite<T>(
+  owner: object,
+  target: EventCallable<T>,
+  previous: T,
+): void {
+  trackers.forEach((snapshots) => {
+    if (!snapshots.has(owner)) {
+      snapshots.set(owner, {
+        target: target as EventCallable<unknown>,
+        value: previous,
+      });
+    }
+  });
+}
+
+/**
+ * Run a function and remember the previous value of every state it writes
+ * @param fn - Function performing the state changes
+ * @returns The function's result and a `restore` that rolls the states back
+ */
+export function trackWrites<R>(fn: () => R): { result: R; restore: () => void } {
+  const snapshots = new Map<object, Snapshot>();
+  trackers.push(snapshots);
+  let result: R;
+  try {
+    result = fn();
+  } finally {
+    trackers.splice(trackers.indexOf(snapshots), 1);
+  }
+
+  return {
+    result,
+    restore() {
+      batch(() => {
+        snapshots.forEach((snapshot, owner) => {
+          setDraft(owner, snapshot.target, snapshot.value);
+        });
+      });
+    },
+  };
+}
@@ -1,13 +1,28 @@
 import { createEvent, createStore } from "effector";
-import type { StateInstance, StateValue } from "./types.ts";
+import { getDraft, isBatching, setDraft } from "./batch.ts";
+import { resolveEquals } from "./equals.ts";
+import { readStore, registerName, watchStore, writeEvent } from "./scope.ts";
+import { noteWrite } from "./snapshot.ts";
+import type { StateInstance, StateOptions, StateValue } from "./types.ts";
 
 /**
  * Create a new state instance with the given initial value
  * @param initialValue - The initial state value
+ * @param options - State options (equality used to skip no-op updates, stable
+ * name used for server rendering)
  * @returns StateInstance with core utilities
  */
-export function State<T>(initialValue: StateValue<T> = null): StateInstance<T> {
-  const $state = createStore<StateValue<T>>(initialValue);
+export function State<T>(
+  initialValue: StateValue<T> = null,
+  options: StateOptions<T> = {},
+): StateInstance<T> {
+  const equals = resolveEquals(options.equals);
+  // Keeping the previous reference tells Effector nothing changed
+  const $state = createStore<StateValue<T>>(initialValue, {
+    name: options.name,
+    sid: options.name,
+    updateFilter: (next, prev) => !equals(next, prev),
+  });
   
   const set = createEvent<StateValue<T>>("set");
   const update = createEvent<(prev: StateValue<T>) => StateValue<T>>("update");
@@ -19,19 +34,59 @@ export function State<T>(initialValue: StateValue<T> = null): StateInstance<T> {
     .on(update, (state, updater) => updater(state))
     .reset(reset);
   
+  const unregister = options.name ? registerName(options.name, $state, set) : null;
+
+  // Watchers created through subscribe, detached by dispose
+  const subscriptions = new Set<() => void>();
+  
+  // Inside batch() writes are collected and applied together at the end
+  const read = (): StateValue<T> => {
+    const draft = getDraft($state);
+    return draft ? draft.value as StateValue<T> : readStore($state);
+  };
+  
   return {
     $state,
     
     get value() {
-      return $state.getState();
+      return read();
     },
     
-    set,
-    update,
-    reset,
+    set(value: StateValue<T>) {
+      noteWrite($state, set, read());
+      if (!isBatching()) {
+        writeEvent(set, value);
+        return value;
+      }
+      setDraft($state, set, value);
+      return value;
+    },
+    
+    update(updater: (prev: StateValue<T>) => StateValue<T>) {
+      noteWrite($state, set, read());
+      if (!isBatching()) return writeEvent(update, updater);
+      setDraft($state, set, updater(read()));
+    },
+    
+    reset() {
+      noteWrite($state, set, read());
+      if (!isBatching()) return writeEvent(reset, undefined);
+      setDraft($state, set, initialValue);
+    },
     
     subscribe(fn: (value: StateValue<T>) => void) {
-      return $state.watch(fn);
+      const unwatch = watchStore($state, fn);
+      const unsubscribe = () => {
+        unwatch();
+        subscriptions.delete(unsubscribe);
+      };
+      subscriptions.add(unsubscribe);
+      return unsubscribe;
+    },
+    
+    dispose() {
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      unregister?.();
     },
   };
 }
@@ -0,0 +1,318 @@
+import type { Serializer, StorageAdapter } from "./types.ts";
+
+// Browser APIs used by the adapters, typed locally so no DOM lib is needed
+
+interface WebStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+interface StorageChange {
+  readonly key: string | null;
+  readonly newValue: string | null;
+  readonly storageArea: unknown;
+}
+
+interface IDBRequestLike<R> {
+  readonly result: R;
+  readonly error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+interface IDBObjectStoreLike {
+  get(key: string): IDBRequestLike<unknown>;
+  put(value: string, key: string): IDBRequestLike<unknown>;
+  delete(key: string): IDBRequestLike<unknown>;
+}
+
+interface IDBDatabaseLike {
+  createObjectStore(name: string): unknown;
+  transaction(
+    store: string,
+    mode: "readonly" | "readwrite",
+  ): { objectStore(name: string): IDBObjectStoreLike };
+}
+
+interface IDBOpenRequestLike extends IDBRequestLike<IDBDatabaseLike> {
+  onupgradeneeded: (() => void) | null;
+}
+
+interface BrowserGlobals {
+  readonly localStorage?: WebStorage;
+  readonly sessionStorage?: WebStorage;
+  readonly indexedDB?: { open(name: string, version: number): IDBOpenRequestLike };
+  readonly document?: { cookie: string };
+  readonly addEventListener?: (
+    type: "storage",
+    listener: (event: StorageChange) => void,
+  ) => void;
+  readonly removeEventListener?: (
+    type: "storage",
+    listener: (event: StorageChange) => void,
+  ) => void;
+}
+
+const browser = globalThis as unknown as BrowserGlobals;
+
+/**
+ * Read a browser global, failing clearly where it doesn't exist
+ */
+function browserGlobal<Name extends "localStorage" | "sessionStorage" | "indexedDB" | "document">(
+  name: Name,
+): NonNullable<BrowserGlobals[Name]> {
+  const value = browser[name];
+  if (value === undefined) throw new Error(`${name} is not available in this environment`);
+  return value as NonNullable<BrowserGlobals[Name]>;
+}
+
+/**
+ * Whether `localStorage` can be used
+ * @internal
+ */
+export function hasLocalStorage(): boolean {
+  return browser.localStorage !== undefined;
+}
+
+/**
+ * Plain JSON serializer
+ */
+export const jsonSerializer: Serializer = {
+  serialize: (value) => JSON.stringify(value),
+  deserialize: (raw) => JSON.parse(raw),
+};
+
+// Key marking values encoded by richSerializer, unlikely to clash with user data
+const TAG = "__raptorType";
+const TAGGED_TYPES: readonly unknown[] = ["Date", "Map", "Set"];
+
+interface Tagged {
+  readonly [TAG]: "Date" | "Map" | "Set";
+  readonly value: unknown;
+}
+
+const isTagged = (value: unknown): value is Tagged => {
+  if (typeof value !== "object" || value === null) return false;
+  const keys = Object.keys(value);
+  return keys.length === 2 && keys.includes("value") &&
+    TAGGED_TYPES.includes((value as Record<string, unknown>)[TAG]);
+};
+
+/**
+ * JSON serializer that also round-trips Date, Map and Set values
+ */
+export const richSerializer: Serializer = {
+  serialize: (value) => {
+    return JSON.stringify(
+      value,
+      function (this: Record<string, unknown>, key, current) {
+        // `current` has already been through toJSON, so read the raw value
+        const raw = this[key];
+        if (raw instanceof Date) return { [TAG]: "Date", value: raw.toISOString() };
+        if (raw instanceof Map) return { [TAG]: "Map", value: [...raw] };
+        if (raw instanceof Set) return { [TAG]: "Set", value: [...raw] };
+        return current;
+      },
+    );
+  },
+
+  deserialize: (raw) => {
+    return JSON.parse(raw, (_key, current) => {
+      if (!isTagged(current)) return current;
+      switch (current[TAG]) {
+        case "Date":
+          return new Date(current.value as string);
+        case "Map":
+          return new Map(current.value as [unknown, unknown][]);
+        case "Set":
+          return new Set(current.value as unknown[]);
+        default:
+          return current;
+      }
+    });
+  },
+};
+
+/**
+ * Adapter for a Web Storage object, synced across tabs through `storage` events
+ */
+function webStorageAdapter(getStorage: () => WebStorage): StorageAdapter {
+  return {
+    getItem: (key) => getStorage().getItem(key),
+    setItem: (key, value) => getStorage().setItem(key, value),
+    removeItem: (key) => getStorage().removeItem(key),
+
+    subscribe(key, listener) {
+      const { addEventListener, removeEventListener } = browser;
+      if (typeof addEventListener !== "function") return () => {};
+
+      const onStorage = (event: StorageChange) => {
+        if (event.storageArea === getStorage() && event.key === key) {
+          listener(event.newValue);
+        }
+      };
+      addEventListener("storage", onStorage);
+      return () => removeEventListener?.("storage", onStorage);
+    },
+  };
+}
+
+/**
+ * Adapter backed by `localStorage`
+ */
+export function localStorageAdapter(): StorageAdapter {
+  return webStorageAdapter(() => browserGlobal("localStorage"));
+}
+
+/**
+ * Adapter backed by `sessionStorage`
+ */
+export function sessionStorageAdapter(): StorageAdapter {
+  return webStorageAdapter(() => browserGlobal("sessionStorage"));
+}
+
+/**
+ * In-memory adapter, useful for tests and server rendering
+ * Listeners on the same adapter are notified of each other's writes.
+ * @param initial - Initial raw entries
+ */
+export function memoryAdapter(
+  initial: Record<string, string> = {},
+): StorageAdapter {
+  const items = new Map(Object.entries(initial));
+  const listeners = new Map<string, Set<(value: string | null) => void>>();
+
+  const notify = (key: string, value: string | null) => {
+    listeners.get(key)?.forEach((listener) => listener(value));
+  };
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+
+    setItem(key, value) {
+      items.set(key, value);
+      notify(key, value);
+    },
+
+    removeItem(key) {
+      items.delete(key);
+      notify(key, null);
+    },
+
+    subscribe(key, listener) {
+      const keyListeners = listeners.get(key) ?? new Set();
+      keyListeners.add(listener);
+      listeners.set(key, keyListeners);
+      return () => keyListeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Async adapter backed by IndexedDB
+ * @param options - Database and object store names
+ */
+export function indexedDBAdapter(
+  options: { database?: string; store?: string } = {},
+): StorageAdapter {
+  const { database = "raptor-state", store = "keyval" } = options;
+  let db: Promise<IDBDatabaseLike> | null = null;
+
+  const open = () => {
+    db ??= new Promise((resolve, reject) => {
+      const request = browserGlobal("indexedDB").open(database, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return db;
+  };
+
+  const run = async <R>(
+    mode: "readonly" | "readwrite",
+    operation: (objectStore: IDBObjectStoreLike) => IDBRequestLike<R>,
+  ) => {
+    const objectStore = (await open()).transaction(store, mode).objectStore(store);
+    return new Promise<R>((resolve, reject) => {
+      const request = operation(objectStore);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async getItem(key) {
+      const value = await run("readonly", (objectStore) => objectStore.get(key));
+      return typeof value === "string" ? value : null;
+    },
+
+    async setItem(key, value) {
+      await run("readwrite", (objectStore) => objectStore.put(value, key));
+    },
+
+    async removeItem(key) {
+      await run("readwrite", (objectStore) => objectStore.delete(key));
+    },
+  };
+}
+
+/**
+ * Async adapter storing one file per key, for Deno and Node
+ * @param directory - Directory holding the files (created on first write)
+ */
+export function fileAdapter(directory: string): StorageAdapter {
+  const pathFor = (key: string) => {
+    return `${directory}/${encodeURIComponent(key)}.json`;
+  };
+
+  return {
+    async getItem(key) {
+      const fs = await import("node:fs/promises");
+      try {
+        return await fs.readFile(pathFor(key), "utf8");
+      } catch {
+        return null;
+      }
+    },
+
+    async setItem(key, value) {
+      const fs = await import("node:fs/promises");
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(pathFor(key), value, "utf8");
+    },
+
+    async removeItem(key) {
+      const fs = await import("node:fs/promises");
+      await fs.rm(pathFor(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Adapter backed by `document.cookie`
+ * @param options - Cookie attributes
+ */
+export function cookieAdapter(
+  options: { path?: string; maxAge?: number; sameSite?: "Lax" | "Strict" | "None" } = {},
+): StorageAdapter {
+  const { path = "/", maxAge = 60 * 60 * 24 * 365, sameSite = "Lax" } = options;
+
+  const write = (key: string, value: string, age: number) => {
+    browserGlobal("document").cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}` +
+      `; path=${path}; max-age=${age}; samesite=${sameSite}`;
+  };
+
+  return {
+    getItem(key) {
+      const prefix = `${encodeURIComponent(key)}=`;
+      const cookie = browserGlobal("document").cookie
+        .split("; ")
+        .find((entry) => entry.startsWith(prefix));
+      return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+    },
+
+    setItem: (key, value) => write(key, value, maxAge),
+    removeItem: (key) => write(key, "", 0),
+  };
+}
@@ -2,6 +2,39 @@ import type { Store } from "effector";
 
 export type StateValue<T> = T | null | undefined;
 
+/**
+ * How two values are compared to decide if subscribers should be notified
+ * - reference: Object.is (default)
+ * - shallow: compare array items / object keys one level deep
+ * - deep: compare structurally, including Date, Map and Set
+ */
+export type Equality<T> =
+  | "reference"
+  | "shallow"
+  | "deep"
+  | ((a: T, b: T) => boolean);
+
+export interface StateOptions<T> {
+  /** Skip updates whose new value equals the current one */
+  readonly equals?: Equality<StateValue<T>>;
+  /**
+   * Stable name used by serialize() and hydrate(), must be unique
+   * A later state with the same name replaces this one with a warning.
+   */
+  readonly name?: string;
+}
+
+export interface ComputedOptions<T> {
+  /** Skip recomputed values equal to the current one */
+  readonly equals?: Equality<T>;
+  /**
+   * Only keep the derivation connected while there are subscribers or
+   * connected computed states using it as a source
+   * Reading `value` without subscribers evaluates on demand.
+   */
+  readonly lazy?: boolean;
+}
+
 export interface StateInstance<T> {
   /** The underlying Effector store */
   readonly $state: Store<StateValue<T>>;
@@ -15,6 +48,8 @@ export interface StateInstance<T> {
   readonly reset: () => void;
   /** Subscribe to state changes */
   readonly subscribe: (fn: (value: StateValue<T>) => void) => () => void;
+  /** Detach every watcher created through subscribe and release the state's name */
+  readonly dispose: () => void;
 }
 
 export interface AsyncStateInstance<Data> {
@@ -24,8 +59,15 @@ export interface AsyncStateInstance<Data> {
   readonly loading: StateInstance<boolean>;
   /** Error state */
   readonly error: StateInstance<Error | null>;
-  /** Execute the async operation */
+  /** Number of the current (or last) attempt, 0 before the first call */
+  readonly attempt: StateInstance<number>;
+  /**
+   * Execute the async operation
+   * Calls superseded by a newer one, or cancelled, resolve with the current data.
+   */
   readonly execute: (params?: unknown) => Promise<Data>;
+  /** Abort every running or queued call */
+  readonly cancel: () => void;
   /** Check if currently loading */
   readonly isLoading: boolean;
   /** Check if has error */
@@ -36,6 +78,232 @@ export interface AsyncStateInstance<Data> {
   readonly reset: () => void;
 }
 
+/**
+ * How overlapping execute() calls are handled
+ * - takeLatest: abort the running call and start the new one
+ * - takeFirst: ignore new calls while one is running and return its promise
+ * - queue: run calls one after another
+ * - parallel: run calls side by side, results apply in completion order
+ */
+export type ConcurrencyStrategy = "takeLatest" | "takeFirst" | "queue" | "parallel";
+
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one (defaults to 3) */
+  readonly attempts?: number;
+  /** How the delay grows between attempts (defaults to "exponential") */
+  readonly backoff?: "exponential" | "linear";
+  /** Base delay in milliseconds (defaults to 300) */
+  readonly delay?: number;
+  /** Upper bound for a single delay in milliseconds (defaults to 30000) */
+  readonly maxDelay?: number;
+  /**
+   * Randomize delays to spread out retries, using "equal jitter": each delay
+   * is picked between half and the whole computed delay (defaults to true)
+   */
+  readonly jitter?: boolean;
+  /** Decide whether a failed attempt should be retried */
+  readonly shouldRetry?: (error: Error, attempt: number) => boolean;
+}
+
+export interface PollOptions {
+  /** Milliseconds between the end of one call and the next */
+  readonly interval: number;
+  /** Grow the interval after consecutive failures (defaults to false) */
+  readonly backoff?: "exponential" | "linear" | false;
+  /** Upper bound for the grown interval in milliseconds (defaults to 30000) */
+  readonly maxInterval?: number;
+}
+
+export interface AsyncStateOptions {
+  /** Strategy for overlapping calls */
+  readonly strategy?: ConcurrencyStrategy;
+  /** Retry failed calls, either a max attempts count or full options */
+  readonly retry?: RetryOptions | number;
+  /**
+   * Repeat the last call, either an interval in milliseconds or full options
+   * Polling starts with the first call, runs while data, loading or error
+   * have subscribers, waits for calls in flight and stops on cancel or reset.
+   */
+  readonly poll?: PollOptions | number;
+  /** Stable name of the data state, used by serialize() and hydrate() */
+  readonly name?: string;
+}
+
+/** How a response body is read: a built-in parser or a custom function */
+export type ResponseParser<T> =
+  | "json"
+  | "text"
+  | "blob"
+  | "stream"
+  | ((response: Response) => Promise<T>);
+
+/** Query string values; arrays repeat the key, null and undefined are skipped */
+export type QueryParams = Readonly<
+  Record<string, string | number | boolean | null | undefined | readonly (string | number | boolean)[]>
+>;
+
+/** Request about to be sent by fetchState */
+export interface HttpRequest extends RequestInit {
+  /** Final URL, with the template filled and the query string added */
+  readonly url: string;
+  /** Headers, safe to modify */
+  readonly headers: Headers;
+}
+
+/** Adjust a request before it is sent, e.g. to add auth headers */
+export type RequestInterceptor = (
+  request: HttpRequest,
+) => HttpRequest | Promise<HttpRequest>;
+
+/**
+ * Inspect or replace a response before it is parsed
+ * `retry` sends a request again through the request interceptors, e.g. after
+ * refreshing a token.
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  request: HttpRequest,
+  retry: (request: HttpRequest) => Promise<Response>,
+) => Response | Promise<Response>;
+
+export interface FetchStateOptions<T = unknown, Params = unknown>
+  extends Omit<RequestInit, "body">, AsyncStateOptions {
+  /**
+   * Request body, or a function building it from the execute params
+   * Plain objects and arrays are sent as JSON. Without a body, params not
+   * used by the URL template are sent as JSON for methods other than GET/HEAD.
+   */
+  readonly body?: RequestInit["body"] | ((params: Params) => unknown);
+  /**
+   * Query string, or a function building it from the execute params
+   * Without one, params not used by the URL template become the query string
+   * of GET/HEAD requests.
+   */
+  readonly query?: QueryParams | ((params: Params) => QueryParams);
+  /** How the response body is read (defaults to "json") */
+  readonly parse?: ResponseParser<T>;
+  /** Request interceptors, run in order */
+  readonly onRequest?: RequestInterceptor | readonly RequestInterceptor[];
+  /** Response interceptors, run in order */
+  readonly onResponse?: ResponseInterceptor | readonly ResponseInterceptor[];
+  /**
+   * Share the response through this query client's cache
+   * Polling and execute params are not supported then.
+   */
+  readonly client?: QueryClient;
+  /** Cache key when using a client (defaults to the URL) */
+  readonly key?: QueryKey;
+  /** Milliseconds cached data stays fresh when using a client */
+  readonly staleTime?: number;
+}
+
+export interface MutationOptions<Params, Data, Context = unknown>
+  extends AsyncStateOptions {
+  /**
+   * Apply optimistic changes before the request resolves
+   * Every state written here is rolled back if the mutation fails. Calls
+   * started after a failed one run this again on the rolled back values, so
+   * it should only apply the optimistic change.
+   * The returned value is passed to the other hooks as `context`. Cancelled
+   * calls are rolled back without calling the other hooks.
+   */
+  readonly onMutate?: (params: Params) => Context;
+  /** Called after a successful mutation */
+  readonly onSuccess?: (data: Data, params: Params, context: Context) => void;
+  /** Called after the optimistic changes were rolled back */
+  readonly onError?: (error: Error, params: Params, context: Context) => void;
+  /** Called after either outcome */
+  readonly onSettled?: (
+    data: Data | null,
+    error: Error | null,
+    params: Params,
+    context: Context,
+  ) => void;
+}
+
+/** Pages loaded by an infinite state, with the param each was fetched with */
+export interface InfiniteData<Page, PageParam> {
+  readonly pages: readonly Page[];
+  readonly pageParams: readonly PageParam[];
+}
+
+export interface InfiniteStateOptions<Page, PageParam> {
+  /** Param of the first page */
+  readonly initialPageParam: PageParam;
+  /** Param of the page after the last one, or null/undefined when there is none */
+  readonly getNextPageParam: (
+    lastPage: Page,
+    allPages: readonly Page[],
+  ) => PageParam | null | undefined;
+  /** Retry failed loads, either a max attempts count or full options */
+  readonly retry?: RetryOptions | number;
+}
+
+export interface InfiniteStateInstance<Page, PageParam>
+  extends AsyncStateInstance<InfiniteData<Page, PageParam>> {
+  /** Whether getNextPageParam returned a param for the last page */
+  readonly hasNextPage: ComputedInstance<boolean>;
+  /** Whether a fetchNextPage call is running */
+  readonly isFetchingNextPage: StateInstance<boolean>;
+  /** Load the first page, dropping any loaded pages and aborting a running load */
+  readonly execute: () => Promise<InfiniteData<Page, PageParam>>;
+  /** Append the next page, if there is one; joins a load already running */
+  readonly fetchNextPage: () => Promise<InfiniteData<Page, PageParam>>;
+  /** Reload every loaded page in order, aborting a running load */
+  readonly refetch: () => Promise<InfiniteData<Page, PageParam>>;
+}
+
+/** Cache key: a string or an array of serializable parts */
+export type QueryKey = string | readonly unknown[];
+
+export interface QueryOptions {
+  /** Milliseconds before cached data is considered stale (defaults to 0) */
+  readonly staleTime?: number;
+  /**
+   * Milliseconds an entry is kept after its last handle is disposed
+   * (defaults to 5 minutes)
+   */
+  readonly cacheTime?: number;
+  /** Retry failed fetches, either a max attempts count or full options */
+  readonly retry?: RetryOptions | number;
+}
+
+export interface QueryInstance<Data> extends AsyncStateInstance<Data> {
+  /** Cache key of the shared entry */
+  readonly key: QueryKey;
+  /** Check if the cached data is stale */
+  readonly isStale: boolean;
+  /** Fetch again even if the cached data is fresh */
+  readonly refetch: () => Promise<Data>;
+  /** Mark the cached data as stale */
+  readonly invalidate: () => void;
+  /** Release the handle, the entry's cacheTime starts once all are released */
+  readonly dispose: () => void;
+}
+
+export interface QueryClient {
+  /**
+   * Get a handle on the cache entry for `key`, creating it if needed
+   * On an existing entry, an explicit staleTime only shortens the entry's one
+   * and an explicit cacheTime only lengthens it.
+   */
+  readonly query: <Data>(
+    key: QueryKey,
+    fetcher: (signal: AbortSignal) => Promise<Data>,
+    options?: QueryOptions,
+  ) => QueryInstance<Data>;
+  /** Mark matching entries stale and refetch the ones that hold data */
+  readonly invalidate: (key?: QueryKey) => void;
+  /** Refetch matching entries */
+  readonly refetch: (key?: QueryKey) => Promise<void>;
+  /** Read cached data */
+  readonly getQueryData: <Data>(key: QueryKey) => StateValue<Data>;
+  /** Write data into an existing entry, e.g. after a mutation */
+  readonly setQueryData: <Data>(key: QueryKey, value: StateValue<Data>) => void;
+  /** Drop every entry */
+  readonly clear: () => void;
+}
+
 export interface ComputedInstance<T> {
   /** The computed store */
   readonly $state: Store<T>;
@@ -43,4 +311,359 @@ export interface ComputedInstance<T> {
   readonly value: T;
   /** Subscribe to computed changes */
   readonly subscribe: (fn: (value: T) => void) => () => void;
+  /** Detach every subscriber and disconnect from the sources */
+  readonly dispose: () => void;
+}
+
+export interface HistoryOptions {
+  /** Maximum number of undo steps to keep (defaults to 100, 0 disables history) */
+  readonly maxDepth?: number;
+}
+
+export interface HistoryStateInstance<T> extends StateInstance<T> {
+  /** Whether there is an entry to undo */
+  readonly canUndo: ComputedInstance<boolean>;
+  /** Whether there is an entry to redo */
+  readonly canRedo: ComputedInstance<boolean>;
+  /** Restore the previous value */
+  readonly undo: () => void;
+  /** Re-apply the last undone value */
+  readonly redo: () => void;
+  /** Run several updates and record them as a single history entry */
+  readonly transaction: (fn: () => void) => void;
+  /** Drop all undo/redo entries, keeping the current value */
+  readonly clearHistory: () => void;
+}
+
+export interface CollectionOptions<T> {
+  /** Read a stable id from an item, letting item() look rows up by id */
+  readonly getId?: (item: T) => EntityId;
+}
+
+export interface CollectionInstance<T> extends StateInstance<T[]> {
+  /** Add item to the end of the array */
+  readonly push: (item: T) => void;
+  /** Add item to the beginning of the array */
+  readonly unshift: (item: T) => void;
+  /** Remove and return the last item */
+  readonly pop: () => T | undefined;
+  /** Remove and return the first item */
+  readonly shift: () => T | undefined;
+  /** Remove item at index */
+  readonly removeAt: (index: number) => void;
+  /** Remove item by value */
+  readonly remove: (item: T) => void;
+  /** Update item at index */
+  readonly updateAt: (index: number, updater: (item: T) => T) => void;
+  /** Find item by predicate */
+  readonly find: (predicate: (item: T) => boolean) => T | undefined;
+  /** Filter items */
+  readonly filter: (predicate: (item: T) => boolean) => T[];
+  /** Map items */
+  readonly mapItems: <U>(mapper: (item: T) => U) => U[];
+  /**
+   * Store holding one item, notified only when that item changes
+   * Keys are ids when `getId` is set, indexes otherwise. Repeated calls with
+   * the same key return the same store while it has subscribers; it is
+   * dropped from the cache when the last one leaves.
+   */
+  readonly item: (key: EntityId) => ComputedInstance<T | undefined>;
+  /**
+   * Store holding a slice of the items, notified only when the slice changes
+   * The collection releases it when its last subscriber leaves; dispose()
+   * stores that are never subscribed.
+   */
+  readonly select: <U>(
+    selector: (items: readonly T[]) => U,
+    equals?: Equality<U>,
+  ) => ComputedInstance<U>;
+  /** Create a sorted, filtered and paginated view of the items */
+  readonly view: (options?: CollectionViewOptions<T>) => CollectionViewInstance<T>;
+  /** Get array length */
+  readonly length: number;
+  /** Check if array is empty */
+  readonly isEmpty: boolean;
+}
+
+export interface CollectionViewOptions<T> {
+  /** Initial sort comparator, null keeps source order */
+  readonly sortBy?: ((a: T, b: T) => number) | null;
+  /** Initial filter predicate, null keeps every item */
+  readonly filterBy?: ((item: T) => boolean) | null;
+  /** Initial page, starting at 1 */
+  readonly page?: number;
+  /** Initial page size, null shows every item on one page */
+  readonly pageSize?: number | null;
+}
+
+export interface CollectionViewInstance<T> {
+  /** Sort comparator input */
+  readonly sortBy: StateInstance<(a: T, b: T) => number>;
+  /** Filter predicate input */
+  readonly filterBy: StateInstance<(item: T) => boolean>;
+  /** Current page input, starting at 1 */
+  readonly page: StateInstance<number>;
+  /** Page size input */
+  readonly pageSize: StateInstance<number>;
+  /** Items of the current page, sorted and filtered */
+  readonly items: ComputedInstance<T[]>;
+  /** Number of items matching the filter */
+  readonly total: ComputedInstance<number>;
+  /** Number of pages for the matching items */
+  readonly pageCount: ComputedInstance<number>;
+  /** Disconnect the view from its source */
+  readonly dispose: () => void;
+}
+
+/** Key identifying an entity */
+export type EntityId = string | number;
+
+/** Normalized entities: an ordered id list plus a lookup by id */
+export interface EntityState<T, Id extends EntityId = EntityId> {
+  readonly ids: readonly Id[];
+  readonly entities: Readonly<Partial<Record<Id, T>>>;
+}
+
+export interface EntityCollectionOptions<T, Id extends EntityId = EntityId> {
+  /** Read the id of an entity */
+  readonly selectId: (entity: T) => Id;
+  /** Keep ids ordered by this comparator (defaults to insertion order) */
+  readonly sortComparer?: (a: T, b: T) => number;
+  /** Initial entities */
+  readonly initialItems?: readonly T[];
+}
+
+export interface EntityCollectionInstance<T, Id extends EntityId = EntityId>
+  extends StateInstance<EntityState<T, Id>> {
+  /** Ids in order, unchanged when only entity contents change */
+  readonly ids: ComputedInstance<readonly Id[]>;
+  /** Entities in id order */
+  readonly all: ComputedInstance<T[]>;
+  /** Insert an entity, or shallow-merge it into the existing one */
+  readonly upsertOne: (entity: T) => void;
+  /** Insert or shallow-merge several entities in one update */
+  readonly upsertMany: (entities: readonly T[]) => void;
+  /** Replace every entity */
+  readonly setAll: (entities: readonly T[]) => void;
+  /** Update one entity with partial changes or an updater, if it exists */
+  readonly updateById: (id: Id, changes: Partial<T> | ((entity: T) => T)) => void;
+  /** Remove one entity */
+  readonly removeById: (id: Id) => void;
+  /**
+   * Store holding one entity, notified only when that entity changes
+   * Repeated calls with the same id return the same store while it has
+   * subscribers; it is dropped from the cache when the last one leaves.
+   */
+  readonly selectById: (id: Id) => ComputedInstance<T | undefined>;
+}
+
+/** Anything computed() can read from: a store or an object exposing `$state` */
+export type ComputedSource<T = unknown> = Store<T> | { readonly $state: Store<T> };
+
+/** Value type held by a computed source */
+export type SourceValue<S> = S extends Store<infer U> ? U
+  : S extends { readonly $state: Store<infer U> } ? U
+  : never;
+
+/** Value types of a tuple or object map of computed sources */
+export type SourceValues<S> = { [K in keyof S]: SourceValue<S[K]> };
+
+/**
+ * Key/value storage used by persistedState
+ * Methods may be synchronous or return promises.
+ */
+export interface StorageAdapter {
+  /** Read a raw value, null when missing */
+  readonly getItem: (key: string) => string | null | Promise<string | null>;
+  /** Write a raw value */
+  readonly setItem: (key: string, value: string) => void | Promise<void>;
+  /** Delete a value */
+  readonly removeItem: (key: string) => void | Promise<void>;
+  /** Listen for changes made elsewhere (other tabs, other instances) */
+  readonly subscribe?: (
+    key: string,
+    listener: (value: string | null) => void,
+  ) => () => void;
+}
+
+/** Converts values to and from their stored string form */
+export interface Serializer {
+  readonly serialize: (value: unknown) => string;
+  readonly deserialize: (raw: string) => unknown;
+}
+
+export interface PersistOptions {
+  /** Where to store the value (defaults to localStorage, or memory when unavailable) */
+  readonly storage?: StorageAdapter;
+  /** How to encode the value (defaults to JSON) */
+  readonly serializer?: Serializer;
+  /**
+   * Keep instances in sync across tabs
+   * - "storage": through the adapter's subscribe (storage events)
+   * - "broadcast": through a BroadcastChannel
+   * - true: "storage" when the adapter supports it, else "broadcast"
+   */
+  readonly sync?: boolean | "storage" | "broadcast";
+  /** Version of the stored value's shape (defaults to 0) */
+  readonly version?: number;
+  /**
+   * Upgrade a stored value by one version
+   * Called repeatedly from the stored version up to `version`.
+   */
+  readonly migrate?: (fromVersion: number, oldValue: unknown) => unknown;
+  /** Called when a stored value can't be migrated; the initial value is used instead */
+  readonly onMigrationError?: (
+    error: Error,
+    storedVersion: number,
+    storedValue: unknown,
+  ) => void;
+}
+
+export interface PersistedStateInstance<T> extends StateInstance<T> {
+  /** Whether the stored value has been loaded */
+  readonly hydrated: StateInstance<boolean>;
+  /** Resolves once the stored value has been loaded */
+  readonly hydration: Promise<void>;
+}
+
+type PathPrimitive =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date;
+
+/** Dotted paths below a nested value, never for primitives */
+type SubPath<V> = NonNullable<V> extends PathPrimitive ? never
+  : NonNullable<V> extends readonly (infer Item)[]
+    ? `${number}` | `${number}.${SubPath<Item>}`
+  : FieldPath<NonNullable<V>>;
+
+/** Dotted paths into an object, e.g. "address.city" or "items.0.name" */
+export type FieldPath<T> = {
+  [K in keyof T & string]: K | `${K}.${SubPath<T[K]>}`;
+}[keyof T & string];
+
+/** Type of the value found at a dotted path */
+export type FieldValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? T extends readonly (infer Item)[] ? FieldValue<Item, Rest>
+  : K extends keyof T ? FieldValue<NonNullable<T[K]>, Rest>
+  : never
+  : T extends readonly (infer Item)[] ? Item
+  : P extends keyof T ? T[P]
+  : never;
+
+/** Paths whose value is an array, e.g. "addresses" */
+export type ArrayFieldPath<T> = {
+  [P in FieldPath<T>]: NonNullable<FieldValue<T, P>> extends readonly unknown[] ? P
+    : never;
+}[FieldPath<T>];
+
+/** Type of one item of the array found at a path */
+export type ArrayFieldItem<T, P extends string> = NonNullable<FieldValue<T, P>> extends
+  readonly (infer Item)[] ? Item : never;
+
+/** Validation messages keyed by field path */
+export type FieldErrors = Partial<Record<string, string>>;
+
+/** Per-field boolean flags keyed by field path */
+export type FieldFlags = Partial<Record<string, boolean>>;
+
+/**
+ * Validate one field
+ * Return an error message, or nothing when valid. Async validators receive a
+ * signal that aborts when a newer validation of the same field starts.
+ */
+export type FieldValidator<Value, Values> = (
+  value: Value,
+  values: Values,
+  signal: AbortSignal,
+) => string | null | undefined | Promise<string | null | undefined>;
+
+export interface FormOptions<T> {
+  /** Field validators keyed by path */
+  readonly validators?: {
+    readonly [P in FieldPath<T>]?: FieldValidator<FieldValue<T, P>, T>;
+  };
+  /** When field validators run automatically (defaults to "submit") */
+  readonly validateOn?: "change" | "blur" | "submit";
+  /** Delay in milliseconds before validating on change */
+  readonly debounce?: number;
+  /**
+   * Extract field errors from a failed submission
+   * Defaults to reading a `fieldErrors` object from the error.
+   */
+  readonly mapSubmitErrors?: (error: Error) => FieldErrors | null | undefined;
+}
+
+export interface FormInstance<T> {
+  /** Form field values */
+  readonly values: StateInstance<T>;
+  /** Form field errors, keyed by path */
+  readonly errors: StateInstance<FieldErrors>;
+  /** Fields that have been blurred */
+  readonly touched: StateInstance<FieldFlags>;
+  /** Fields whose value differs from the initial one */
+  readonly dirty: StateInstance<FieldFlags>;
+  /** Fields with a validation in progress */
+  readonly validating: StateInstance<FieldFlags>;
+  /** Form submission state */
+  readonly isSubmitting: StateInstance<boolean>;
+  /** Number of submit attempts, including ones that failed validation */
+  readonly submitCount: StateInstance<number>;
+  /** Error of the last submission, null when it succeeded */
+  readonly submitError: StateInstance<Error | null>;
+  /** Whether any field is dirty */
+  readonly isDirty: ComputedInstance<boolean>;
+  /** Read a field by path */
+  readonly getField: <P extends FieldPath<T>>(path: P) => FieldValue<T, P>;
+  /** Update a field by path, e.g. "address.city" */
+  readonly setField: <P extends FieldPath<T>>(path: P, value: FieldValue<T, P>) => void;
+  /** Mark a field as touched */
+  readonly blur: (path: FieldPath<T>) => void;
+  /** Set field error */
+  readonly setFieldError: (path: FieldPath<T>, error: string | null) => void;
+  /** Clear all errors */
+  readonly clearErrors: () => void;
+  /** Run the validator of one field */
+  readonly validateField: (path: FieldPath<T>) => Promise<boolean>;
+  /** Run every field validator */
+  readonly validateForm: () => Promise<boolean>;
+  /** Validate form with custom validator */
+  readonly validate: (validator: (values: T) => FieldErrors) => boolean;
+  /**
+   * Validate, then run the handler unless a submission is already running
+   * Resolves with the handler's result, or undefined when validation or the
+   * submission failed (see `errors` and `submitError`).
+   */
+  readonly submit: <Result>(
+    handler: (values: T, signal: AbortSignal) => Promise<Result>,
+  ) => Promise<Result | undefined>;
+  /**
+   * Helpers for a repeating group of fields
+   * Row errors, touched and dirty flags move with their row.
+   */
+  readonly fieldArray: <P extends ArrayFieldPath<T>>(
+    path: P,
+  ) => FieldArrayInstance<ArrayFieldItem<T, P>>;
+  /** Reset form to initial values */
+  readonly reset: () => void;
+  /** Check if form is valid */
+  readonly isValid: boolean;
+}
+
+export interface FieldArrayInstance<Item> {
+  /** Stable id per row, in row order, for use as render keys */
+  readonly ids: StateInstance<string[]>;
+  /** Add a row at the end */
+  readonly append: (item: Item) => void;
+  /** Add a row before the given index */
+  readonly insert: (index: number, item: Item) => void;
+  /** Remove the row at the given index */
+  readonly remove: (index: number) => void;
+  /** Move a row to another index */
+  readonly move: (from: number, to: number) => void;
 }
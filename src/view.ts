@@ -0,0 +1,63 @@
+import { computed } from "./computed.ts";
+import { State } from "./state.ts";
+import type {
+  CollectionViewInstance,
+  CollectionViewOptions,
+  ComputedSource,
+  StateValue,
+} from "./types.ts";
+
+/**
+ * Create a sorted, filtered and paginated view over a list of items
+ * Out of range pages show the nearest existing page.
+ * @param source - Collection, state or store holding the items
+ * @param options - Initial sort comparator, filter predicate, page and page size
+ * @returns CollectionViewInstance with reactive inputs and derived stores
+ */
+export function collectionView<T>(
+  source: ComputedSource<StateValue<readonly T[]>>,
+  options: CollectionViewOptions<T> = {},
+): CollectionViewInstance<T> {
+  const sortBy = State<(a: T, b: T) => number>(options.sortBy ?? null);
+  const filterBy = State<(item: T) => boolean>(options.filterBy ?? null);
+  const page = State<number>(options.page ?? 1);
+  const pageSize = State<number>(options.pageSize ?? null);
+
+  const matching = computed([source, filterBy], (items, predicate) => {
+    const all = [...(items ?? [])];
+    return predicate ? all.filter(predicate) : all;
+  });
+  const sorted = computed([matching, sortBy], (items, compare) => {
+    return compare ? [...items].sort(compare) : items;
+  });
+
+  const total = computed([matching], (items) => items.length);
+  const pageCount = computed([total, pageSize], (count, size) => {
+    return size ? Math.ceil(count / size) : Math.min(count, 1);
+  });
+
+  const items = computed(
+    [sorted, page, pageSize, pageCount],
+    (list, current, size, pages) => {
+      if (!size) return list;
+      const index = Math.min(Math.max(current ?? 1, 1), Math.max(pages, 1)) - 1;
+      return list.slice(index * size, (index + 1) * size);
+    },
+    { equals: "shallow" },
+  );
+
+  return {
+    sortBy,
+    filterBy,
+    page,
+    pageSize,
+    items,
+    total,
+    pageCount,
+
+    dispose() {
+      [items, pageCount, total, sorted, matching].forEach((store) => store.dispose());
+      [sortBy, filterBy, page, pageSize].forEach((input) => input.dispose());
+    },
+  };
+}
@@ -1,4 +1,41 @@
-import { State, computed, asyncState, fetchState, mutationState } from "./mod.ts";
+import {
+  State,
+  computed,
+  asyncState,
+  fetchState,
+  mutationState,
+  historyState,
+  batch,
+  createQueryClient,
+  persistedState,
+  memoryAdapter,
+  richSerializer,
+  form,
+  entityCollection,
+  collection,
+  collectionView,
+  infiniteState,
+  HttpError,
+  fork,
+  withScope,
+  serialize,
+  hydrate,
+} from "./mod.ts";
+import type { HttpRequest, StateInstance } from "./mod.ts";
+import {
+  useAsyncState,
+  createStateContext,
+  useAsyncStateSuspense,
+  useLocalState,
+  useRaptorSelector,
+  useRaptorState,
+  ScopeProvider,
+} from "./react.ts";
+import { Component, createElement, Suspense } from "react";
+import type { ReactNode } from "react";
+import TestRenderer from "react-test-renderer";
+import { allSettled } from "effector";
+import type { StoreWritable } from "effector";
 
 // === Core State Tests ===
 console.log("🦖 RaptorState - Clean API Tests\n");
@@ -70,6 +107,1004 @@ count.set(15);
 count.set(20);
 unsubscribe();
 
+// === History State ===
+console.log("\n=== History State ===");
+const title = historyState("Untitled", { maxDepth: 10 });
+title.set("Draft");
+title.set("Final");
+title.undo();
+console.log("After undo:", title.value); // Draft
+title.redo();
+console.log("After redo:", title.value); // Final
+
+title.transaction(() => {
+  title.set("Final v2");
+  title.update((prev) => `${prev}!`);
+});
+console.log("After transaction:", title.value); // Final v2!
+title.undo();
+console.log("Transaction undone in one step:", title.value); // Final
+console.log("Can undo / redo:", title.canUndo.value, title.canRedo.value); // true true
+
+const untracked = historyState("a", { maxDepth: 0 });
+untracked.set("b");
+console.log("History disabled by maxDepth 0:", untracked.canUndo.value); // false
+
+// === Batched Updates ===
+console.log("\n=== Batched Updates ===");
+const width = State(2);
+const height = State(3);
+const area = computed([width, height], (w, h) => (w ?? 0) * (h ?? 0));
+const stopArea = area.subscribe((value) => {
+  console.log("Area notified:", value);
+}); // 6
+
+batch(() => {
+  width.set(4);
+  height.update((prev) => (prev ?? 0) + 2);
+}); // Area notified once: 20
+
+try {
+  batch(() => {
+    width.set(100);
+    throw new Error("abort");
+  });
+} catch {
+  console.log("Width after failed batch:", width.value); // 4
+}
+stopArea();
+
+// === Concurrency & Cancellation ===
+console.log("\n=== Concurrency & Cancellation ===");
+const search = asyncState(async (query: string, signal: AbortSignal) => {
+  // Older queries are slower, so they would finish last without cancellation
+  const delay = query.length === 1 ? 50 : 10;
+  await new Promise((resolve) => setTimeout(resolve, delay));
+  signal.throwIfAborted();
+  return `results for ${query}`;
+});
+
+const staleSearch = search.execute("r");
+await search.execute("ra");
+console.log("Stale call:", await staleSearch); // results for ra
+console.log("Search data:", search.data.value); // results for ra
+
+const cancelled = search.execute("rap");
+search.cancel();
+console.log("Cancelled call:", await cancelled); // results for ra
+console.log("Loading after cancel:", search.isLoading); // false
+
+search.execute("t"); // Superseded without anyone awaiting it
+console.log("Fire and forget:", await search.execute("ty")); // results for ty
+
+const queued: string[] = [];
+const saveApi = asyncState(async (step: number) => {
+  await new Promise((resolve) => setTimeout(resolve, 10 - step));
+  queued.push(`step ${step}`);
+  return step;
+}, null, { strategy: "queue" });
+await Promise.all([saveApi.execute(1), saveApi.execute(2), saveApi.execute(3)]);
+console.log("Queue order:", queued); // ["step 1", "step 2", "step 3"]
+
+// === Retry with Backoff ===
+console.log("\n=== Retry with Backoff ===");
+let flakyCalls = 0;
+const flakyApi = asyncState(async () => {
+  flakyCalls++;
+  if (flakyCalls < 3) throw new Error("HTTP 503");
+  return "recovered";
+}, null, {
+  retry: { attempts: 3, delay: 5, backoff: "linear", jitter: false },
+});
+flakyApi.attempt.subscribe((attempt) => {
+  console.log("Attempt:", attempt);
+}); // 0, 1, 2, 3
+await flakyApi.execute();
+console.log("Flaky data:", flakyApi.data.value); // recovered
+console.log("Flaky error:", flakyApi.error.value); // null
+
+const strictApi = asyncState(async () => {
+  throw new Error("HTTP 404");
+}, null, {
+  retry: { attempts: 5, delay: 5, shouldRetry: (err) => !err.message.includes("404") },
+});
+await strictApi.execute().catch(() => {});
+console.log("Attempts for 404:", strictApi.attempt.value); // 1
+
+// === Query Cache ===
+console.log("\n=== Query Cache ===");
+const realFetch = globalThis.fetch;
+let fetchCount = 0;
+globalThis.fetch = async (input) => {
+  fetchCount++;
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  return new Response(JSON.stringify({ url: String(input), fetch: fetchCount }));
+};
+
+const queryClient = createQueryClient({ staleTime: 60_000 });
+const profileA = fetchState<{ url: string; fetch: number }>("/api/profile", {
+  client: queryClient,
+});
+const profileB = fetchState<{ url: string; fetch: number }>("/api/profile", {
+  client: queryClient,
+});
+
+await Promise.all([profileA.execute(), profileB.execute()]);
+console.log("Requests after two handles:", fetchCount); // 1
+console.log("Shared data:", profileA.data.value === profileB.data.value); // true
+
+await profileB.execute();
+console.log("Requests while fresh:", fetchCount); // 1
+
+queryClient.invalidate("/api/profile");
+await queryClient.refetch("/api/profile");
+console.log("Requests after invalidate:", fetchCount); // 2
+console.log("Refetched data:", profileA.data.value?.fetch); // 2
+
+const shortCache = createQueryClient({ cacheTime: 10, staleTime: 60_000 });
+const settingsA = shortCache.query("settings", async () => ({ fetchedAt: ++fetchCount }));
+await settingsA.execute();
+await new Promise((resolve) => setTimeout(resolve, 20));
+const settingsB = shortCache.query("settings", async () => ({ fetchedAt: ++fetchCount }));
+await settingsB.execute();
+console.log("Live handle keeps entry:", settingsA.data === settingsB.data, fetchCount); // true 3
+settingsA.dispose();
+settingsB.dispose();
+await new Promise((resolve) => setTimeout(resolve, 20));
+const settingsC = shortCache.query("settings", async () => ({ fetchedAt: ++fetchCount }));
+console.log("Released entry collected:", settingsC.hasData); // false
+
+const freshTheme = shortCache.query("theme", async () => "dark");
+await freshTheme.execute();
+const strictTheme = shortCache.query("theme", async () => "dark", { staleTime: 0 });
+console.log("Strictest staleTime wins:", freshTheme.isStale, strictTheme.isStale); // true true
+profileA.dispose(); // fetchState handles on a client can be released too
+profileB.dispose();
+globalThis.fetch = realFetch;
+
+// === Optimistic Mutations ===
+console.log("\n=== Optimistic Mutations ===");
+const todoList = State<{ id: number; title: string }[]>([{ id: 1, title: "Existing" }]);
+const todoCount = State(1);
+let serverFails = true;
+const addTodoApi = mutationState(async (todo: { id: number; title: string }) => {
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  if (serverFails) throw new Error("HTTP 500");
+  return todo;
+}, {
+  onMutate: (todo) => {
+    todoList.update((prev) => [...(prev || []), todo]);
+    todoCount.update((prev) => (prev ?? 0) + 1);
+  },
+  onError: (err) => console.log("Rolled back after:", err.message), // HTTP 500
+  onSuccess: (todo) => console.log("Saved:", todo.title), // Second
+});
+
+const failing = addTodoApi.execute({ id: 2, title: "First" });
+console.log("Optimistic count:", todoCount.value); // 2
+await failing.catch(() => {});
+console.log("Count after rollback:", todoCount.value, todoList.value?.length); // 1 1
+
+serverFails = false;
+await addTodoApi.execute({ id: 3, title: "Second" });
+console.log("Count after success:", todoCount.value); // 2
+
+const likes = State(0);
+const likeApi = mutationState(async (fails: boolean) => {
+  await new Promise((resolve) => setTimeout(resolve, fails ? 5 : 15));
+  if (fails) throw new Error("HTTP 500");
+  return true;
+}, {
+  onMutate: () => likes.update((prev) => (prev ?? 0) + 1),
+});
+const failedLike = likeApi.execute(true).catch(() => {});
+const savedLike = likeApi.execute(false);
+console.log("Optimistic likes:", likes.value); // 2
+await failedLike;
+console.log("Likes after one rollback:", likes.value); // 1
+await savedLike;
+console.log("Likes after the other succeeds:", likes.value); // 1
+
+// === Typed Computed ===
+console.log("\n=== Typed Computed ===");
+const firstName = State("Ada");
+const lastName = State("Lovelace");
+const fullName = computed([firstName, lastName], (first, last) => {
+  return `${first?.toUpperCase()} ${last}`;
+});
+const profileCard = computed({ fullName, area }, ({ fullName, area }) => {
+  return `${fullName} (${area})`;
+});
+console.log("Profile card:", profileCard.value); // ADA Lovelace (20)
+
+// === Custom Equality ===
+console.log("\n=== Custom Equality ===");
+const filters = State({ status: "open", tags: ["a"] }, { equals: "deep" });
+const filterNotifications: unknown[] = [];
+filters.subscribe((value) => filterNotifications.push(value));
+filters.set({ status: "open", tags: ["a"] }); // Structurally equal, ignored
+filters.set({ status: "closed", tags: ["a"] });
+console.log("Filter notifications:", filterNotifications.length); // 2
+
+const selected = State(new Set([{ id: 1 }, { id: 2 }]), { equals: "deep" });
+let selectedNotifications = 0;
+selected.subscribe(() => selectedNotifications++);
+selected.set(new Set([{ id: 2 }, { id: 1 }])); // Same members, ignored
+selected.set(new Set([{ id: 1 }, { id: 3 }]));
+console.log("Set notifications:", selectedNotifications); // 2
+
+const scores = State([3, 1, 2]);
+const topScores = computed([scores], (list) => {
+  return [...(list || [])].sort((a, b) => b - a).slice(0, 2);
+}, { equals: "shallow" });
+let topScoreRenders = 0;
+topScores.subscribe(() => topScoreRenders++);
+scores.set([3, 2, 1, 0]); // Same top two, no notification
+scores.set([5, 3]);
+console.log("Top scores:", topScores.value, "renders:", topScoreRenders); // [5, 3] 2
+
+// === Lazy & Disposable Computed ===
+console.log("\n=== Lazy & Disposable Computed ===");
+const source = State(1);
+let lazyRuns = 0;
+const lazySquare = computed([source], (value) => {
+  lazyRuns++;
+  return (value ?? 0) ** 2;
+}, { lazy: true });
+
+source.set(2);
+source.set(3);
+console.log("Runs without subscribers:", lazyRuns); // 0
+console.log("On-demand value:", lazySquare.value, lazyRuns); // 9 1
+
+const stopSquare = lazySquare.subscribe((value) => {
+  console.log("Square notified:", value);
+}); // 9
+source.set(4); // Square notified: 16
+stopSquare();
+const runsAfterStop = lazyRuns;
+source.set(5);
+console.log("Runs after unsubscribe:", lazyRuns - runsAfterStop); // 0
+console.log("Value after unsubscribe:", lazySquare.value); // 25
+
+const halfSquare = computed([lazySquare], (value) => value / 2);
+source.set(6);
+console.log("Lazy source read on demand:", halfSquare.value); // 18
+const halves: number[] = [];
+const stopHalf = halfSquare.subscribe((value) => halves.push(value));
+source.set(2);
+stopHalf();
+halfSquare.dispose();
+console.log("Dependent keeps lazy source connected:", JSON.stringify(halves)); // [18,2]
+console.log("Value after dispose:", halfSquare.value); // 2
+
+const watched = State("a");
+watched.subscribe((value) => console.log("Watcher 1:", value)); // a
+watched.subscribe((value) => console.log("Watcher 2:", value)); // a
+watched.dispose();
+watched.set("b"); // No watcher output
+console.log("Disposed state value:", watched.value); // b
+
+// === Persisted State ===
+console.log("\n=== Persisted State ===");
+const sharedStorage = memoryAdapter();
+const settingsTabA = persistedState("settings", { since: new Date(0), tags: new Set<string>() }, {
+  storage: sharedStorage,
+  serializer: richSerializer,
+  sync: "storage",
+});
+const settingsTabB = persistedState("settings", { since: new Date(0), tags: new Set<string>() }, {
+  storage: sharedStorage,
+  serializer: richSerializer,
+  sync: "storage",
+});
+settingsTabA.set({ since: new Date("2024-01-01"), tags: new Set(["beta"]) });
+console.log("Synced Date:", settingsTabB.value?.since.toISOString()); // 2024-01-01T00:00:00.000Z
+console.log("Synced Set:", settingsTabB.value?.tags.has("beta")); // true
+const lookalike = richSerializer.deserialize(
+  richSerializer.serialize({ meta: { $type: "user", value: 5 } }),
+);
+console.log("Lookalike object kept:", JSON.stringify(lookalike)); // {"meta":{"$type":"user","value":5}}
+
+const slowStorage = memoryAdapter({ theme: JSON.stringify("dark") });
+const asyncTheme = persistedState("theme", "light", {
+  storage: {
+    getItem: async (key) => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return slowStorage.getItem(key);
+    },
+    setItem: slowStorage.setItem,
+    removeItem: slowStorage.removeItem,
+  },
+});
+console.log("Before hydration:", asyncTheme.value, asyncTheme.hydrated.value); // light false
+await asyncTheme.hydration;
+console.log("After hydration:", asyncTheme.value, asyncTheme.hydrated.value); // dark true
+
+// === Persisted State Migrations ===
+console.log("\n=== Persisted State Migrations ===");
+// Version 0 stored a plain name string, version 1 an object, version 2 adds a locale
+const legacyStorage = memoryAdapter({ user: JSON.stringify("Ada") });
+const migratedUser = persistedState("user", { name: "", locale: "en" }, {
+  storage: legacyStorage,
+  version: 2,
+  migrate: (fromVersion, oldValue) => {
+    if (fromVersion === 0) return { name: oldValue };
+    if (fromVersion === 1) return { ...(oldValue as object), locale: "en" };
+    return oldValue;
+  },
+});
+console.log("Migrated user:", migratedUser.value); // { name: "Ada", locale: "en" }
+console.log("Stored shape:", legacyStorage.getItem("user")); // {"$version":2,"value":{...}}
+
+const futureStorage = memoryAdapter({
+  user: JSON.stringify({ $version: 9, value: { unknown: true } }),
+});
+const downgradedUser = persistedState("user", { name: "Guest", locale: "en" }, {
+  storage: futureStorage,
+  version: 2,
+  onMigrationError: (error) => console.log("Migration failed:", error.message),
+}); // Migration failed: Stored version 9 of "user" is newer than version 2
+console.log("Fallback user:", downgradedUser.value?.name); // Guest
+
+// === Form Validation ===
+console.log("\n=== Form Validation ===");
+const takenNames = ["raptor"];
+let usernameChecks = 0;
+const signup = form({
+  username: "",
+  email: "",
+  address: { city: "", zip: "" },
+}, {
+  validateOn: "change",
+  debounce: 10,
+  validators: {
+    email: (value) => value.includes("@") ? null : "Invalid email",
+    "address.city": (value) => value ? null : "City is required",
+    username: async (value, _values, signal) => {
+      usernameChecks++;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      signal.throwIfAborted();
+      return takenNames.includes(value) ? "Username is taken" : null;
+    },
+  },
+});
+
+signup.setField("address.city", "Lagos");
+signup.blur("address.city");
+console.log("Nested value:", signup.values.value?.address); // { city: "Lagos", zip: "" }
+console.log("Touched / dirty:", signup.touched.value, signup.dirty.value); // { "address.city": true } x2
+
+signup.setField("username", "r");
+signup.setField("username", "rap");
+signup.setField("username", "raptor"); // Only the last change is validated
+await new Promise((resolve) => setTimeout(resolve, 15));
+console.log("Validating username:", signup.validating.value?.username); // true
+await new Promise((resolve) => setTimeout(resolve, 20));
+console.log("Username checks:", usernameChecks); // 1
+console.log("Username error:", signup.errors.value?.username); // Username is taken
+
+console.log("Form valid:", await signup.validateForm()); // false
+console.log("All errors:", signup.errors.value); // username + email errors
+
+// === Form Submission ===
+console.log("\n=== Form Submission ===");
+const profile = form({ name: "", email: "" }, {
+  validators: { name: (value) => value ? null : "Name is required" },
+});
+let saves = 0;
+const saveProfile = async (values: { name: string; email: string }) => {
+  saves++;
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  if (values.email.endsWith("@taken.com")) {
+    throw Object.assign(new Error("Validation failed"), {
+      fieldErrors: { email: "Email is already registered" },
+    });
+  }
+  return { id: 1, ...values };
+};
+
+console.log("Invalid submit:", await profile.submit(saveProfile)); // undefined
+console.log("Handler calls:", saves); // 0
+
+profile.setField("name", "Ada");
+profile.setField("email", "ada@taken.com");
+const firstSubmit = profile.submit(saveProfile);
+const secondSubmit = profile.submit(saveProfile); // Ignored while submitting
+await new Promise((resolve) => setTimeout(resolve, 0));
+console.log("Submitting:", profile.isSubmitting.value); // true
+await Promise.all([firstSubmit, secondSubmit]);
+console.log("Handler calls:", saves); // 1
+console.log("Server errors:", profile.errors.value); // { email: "Email is already registered" }
+console.log("Submit error:", profile.submitError.value?.message); // Validation failed
+
+profile.setField("email", "ada@example.com");
+console.log("Saved:", await profile.submit(saveProfile)); // { id: 1, name: "Ada", email: "ada@example.com" }
+console.log("Submit count:", profile.submitCount.value); // 3
+
+// === Field Arrays ===
+console.log("\n=== Field Arrays ===");
+const order = form({
+  customer: "",
+  lines: [{ sku: "A", qty: 1 }, { sku: "B", qty: 0 }],
+});
+const lines = order.fieldArray("lines");
+const [firstLine, secondLine] = lines.ids.value ?? [];
+order.setFieldError("lines.1.qty", "Quantity must be positive");
+order.blur("lines.1.qty");
+
+lines.move(1, 0);
+console.log("Moved skus:", order.values.value?.lines.map((line) => line.sku)); // ["B", "A"]
+console.log("Error followed row:", order.errors.value); // { "lines.0.qty": "Quantity must be positive" }
+console.log("Touched followed row:", order.touched.value); // { "lines.0.qty": true }
+console.log("Ids followed rows:", lines.ids.value?.[0] === secondLine, lines.ids.value?.[1] === firstLine); // true true
+
+lines.append({ sku: "C", qty: 2 });
+lines.insert(0, { sku: "Z", qty: 5 });
+console.log("Skus after insert:", order.values.value?.lines.map((line) => line.sku)); // ["Z", "B", "A", "C"]
+console.log("Error after insert:", Object.keys(order.errors.value ?? {})); // ["lines.1.qty"]
+
+lines.remove(1);
+console.log("Skus after remove:", order.values.value?.lines.map((line) => line.sku)); // ["Z", "A", "C"]
+console.log("Errors after remove:", order.errors.value); // {}
+console.log("Row ids:", lines.ids.value?.length, "dirty:", order.dirty.value?.lines); // 3 dirty: true
+
+order.reset();
+console.log("Ids after reset:", lines.ids.value?.length); // 2
+
+// === Entity Collection ===
+console.log("\n=== Entity Collection ===");
+const users = entityCollection({
+  selectId: (user: { id: number; name: string }) => user.id,
+  sortComparer: (a, b) => a.name.localeCompare(b.name),
+});
+users.upsertMany([{ id: 1, name: "Carol" }, { id: 2, name: "Alice" }, { id: 3, name: "Bob" }]);
+console.log("Sorted ids:", users.ids.value); // [2, 3, 1]
+
+const aliceUpdates: unknown[] = [];
+const bobUpdates: unknown[] = [];
+const idListUpdates: unknown[] = [];
+const stopAlice = users.selectById(2).subscribe((user) => aliceUpdates.push(user?.name));
+const stopBob = users.selectById(3).subscribe((user) => bobUpdates.push(user?.name));
+const stopIds = users.ids.subscribe((ids) => idListUpdates.push(ids));
+
+users.updateById(2, { name: "Alicia" });
+console.log("Alice updates:", aliceUpdates); // ["Alice", "Alicia"]
+console.log("Bob updates:", bobUpdates); // ["Bob"]
+console.log("Id list notifications:", idListUpdates.length); // 1 (order unchanged)
+
+users.upsertOne({ id: 4, name: "Aaron" });
+users.removeById(1);
+console.log("Ids after upsert/remove:", users.ids.value); // [4, 2, 3]
+console.log("All names:", users.all.value.map((user) => user.name)); // ["Aaron", "Alicia", "Bob"]
+console.log("Same selector:", users.selectById(2) === users.selectById(2)); // true
+const aliceSelector = users.selectById(2);
+stopAlice();
+stopBob();
+stopIds();
+console.log("Selector released when unsubscribed:", users.selectById(2) !== aliceSelector); // true
+console.log("Released selector still readable:", aliceSelector.value?.name); // Alicia
+
+const keywords = entityCollection({ selectId: (entry: { id: string }) => entry.id });
+keywords.upsertMany([{ id: "constructor" }, { id: "a" }]);
+console.log("Prototype-named ids:", keywords.ids.value); // ["constructor", "a"]
+console.log("Missing prototype-named id:", keywords.selectById("toString").value); // undefined
+
+// === Collection Item Stores ===
+console.log("\n=== Collection Item Stores ===");
+const rows = collection(
+  Array.from({ length: 1000 }, (_, index) => ({ id: `row-${index}`, done: false })),
+  { getId: (row) => row.id },
+);
+let rowRenders = 0;
+const stopRows = Array.from({ length: 1000 }, (_, index) => {
+  return rows.item(`row-${index}`).subscribe(() => rowRenders++);
+});
+const doneCount = rows.select((items) => items.filter((row) => row.done).length);
+const doneCounts: number[] = [];
+const stopDone = doneCount.subscribe((value) => doneCounts.push(value));
+rowRenders = 0;
+
+rows.updateAt(500, (row) => ({ ...row, done: true }));
+console.log("Rows notified:", rowRenders); // 1
+console.log("Row 500:", rows.item("row-500").value); // { id: "row-500", done: true }
+rows.push({ id: "row-1000", done: false });
+console.log("Rows notified after push:", rowRenders); // 1
+console.log("Done counts:", doneCounts); // [0, 1]
+console.log("By index:", collection(["a", "b"]).item(1).value); // b
+const row500 = rows.item("row-500");
+stopRows.forEach((stop) => stop());
+stopDone();
+console.log("Item store released:", rows.item("row-500") !== row500, row500.value?.done); // true true
+
+// === Collection Views ===
+console.log("\n=== Collection Views ===");
+const products = collection([
+  { name: "Kiwi", price: 3 },
+  { name: "Apple", price: 1 },
+  { name: "Mango", price: 5 },
+  { name: "Banana", price: 2 },
+  { name: "Cherry", price: 8 },
+]);
+const catalog = products.view({
+  sortBy: (a, b) => a.name.localeCompare(b.name),
+  pageSize: 2,
+});
+const pageNames = () => catalog.items.value.map((product) => product.name);
+console.log("Page 1:", pageNames(), catalog.total.value, catalog.pageCount.value); // ["Apple", "Banana"] 5 3
+
+catalog.page.set(3);
+console.log("Page 3:", pageNames()); // ["Mango"]
+
+catalog.filterBy.set((product) => product.price > 2);
+console.log("Filtered:", pageNames(), catalog.total.value, catalog.pageCount.value); // ["Mango"] 3 2 (page clamped)
+
+products.push({ name: "Lime", price: 4 });
+catalog.page.set(1);
+console.log("After push:", pageNames(), catalog.total.value); // ["Cherry", "Kiwi"] 4
+catalog.dispose();
+
+const cheapestUsers = collectionView(users.all, { sortBy: (a, b) => b.id - a.id, pageSize: 1 });
+console.log("Entity view:", cheapestUsers.items.value); // [{ id: 4, name: "Aaron" }]
+
+// === Infinite State ===
+console.log("\n=== Infinite State ===");
+const feedItems = Array.from({ length: 5 }, (_, index) => `post-${index}`);
+const loadedCursors: number[] = [];
+const feed = infiniteState(
+  async (cursor: number) => {
+    loadedCursors.push(cursor);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const items = feedItems.slice(cursor, cursor + 2);
+    return { items, nextCursor: cursor + 2 < feedItems.length ? cursor + 2 : null };
+  },
+  { initialPageParam: 0, getNextPageParam: (lastPage) => lastPage.nextCursor },
+);
+
+await feed.execute();
+console.log("First page:", feed.data.value?.pages.map((page) => page.items)); // [["post-0", "post-1"]]
+console.log("Has next page:", feed.hasNextPage.value); // true
+
+const nextPage = feed.fetchNextPage();
+feed.fetchNextPage(); // Joins the load in flight
+console.log("Fetching next page:", feed.isFetchingNextPage.value); // true
+await nextPage;
+await feed.fetchNextPage();
+console.log("All items:", feed.data.value?.pages.flatMap((page) => page.items).length); // 5
+console.log("Has next page:", feed.hasNextPage.value, "fetching:", feed.isFetchingNextPage.value); // false fetching: false
+
+feedItems[0] = "post-0 (edited)";
+loadedCursors.length = 0;
+await feed.refetch();
+console.log("Refetched cursors:", loadedCursors); // [0, 2, 4]
+console.log("Edited item:", feed.data.value?.pages[0].items[0]); // post-0 (edited)
+
+await feed.execute();
+loadedCursors.length = 0;
+const pendingNext = feed.fetchNextPage();
+const reload = feed.execute(); // Drops the pages, aborting the next-page load
+console.log("Reload is a new load:", reload !== pendingNext); // true
+await Promise.all([pendingNext, reload]);
+console.log("Pages after reload:", feed.data.value?.pages.length, loadedCursors); // 1 [2, 0]
+
+// === Polling ===
+console.log("\n=== Polling ===");
+let statusCalls = 0;
+const callTimes: number[] = [];
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const status = asyncState(async () => {
+  statusCalls++;
+  callTimes.push(Date.now());
+  await sleep(5);
+  if (statusCalls === 2 || statusCalls === 3) throw new Error("HTTP 503");
+  return { healthy: true, check: statusCalls };
+}, null, { poll: { interval: 20, backoff: "exponential" } });
+
+await status.execute();
+await sleep(50);
+console.log("Polls without subscribers:", statusCalls); // 1
+
+const stopStatus = status.data.subscribe(() => {});
+await sleep(170); // Gaps of 20ms, then 40ms and 80ms after failures
+console.log("Polls with a subscriber:", statusCalls); // 4
+const gaps = callTimes.slice(1).map((time, index) => time - callTimes[index] - 5);
+console.log("Backoff after failures:", gaps[2] > gaps[1] && gaps[1] > 30); // true
+console.log("Recovered:", status.data.value?.check, status.error.value); // 4 null
+
+stopStatus();
+const callsAfterUnsubscribe = statusCalls;
+await sleep(60);
+console.log("Stopped after unsubscribe:", statusCalls === callsAfterUnsubscribe); // true
+
+const stopStatusAgain = status.error.subscribe(() => {});
+status.reset();
+await sleep(60);
+console.log("Stopped after reset:", statusCalls === callsAfterUnsubscribe); // true
+stopStatusAgain();
+
+status.data.subscribe(() => {});
+await status.execute();
+const callsBeforeDispose = statusCalls;
+status.data.dispose();
+await sleep(60);
+console.log("Stopped after dispose:", statusCalls === callsBeforeDispose); // true
+
+// === Configurable Fetch ===
+console.log("\n=== Configurable Fetch ===");
+const sentRequests: string[] = [];
+let accessToken = "expired";
+globalThis.fetch = async (input, init) => {
+  const headers = new Headers(init?.headers);
+  sentRequests.push(`${init?.method ?? "GET"} ${input} ${init?.body ?? ""}`.trim());
+  if (headers.get("authorization") !== "Bearer fresh") {
+    return new Response(JSON.stringify({ message: "Token expired" }), {
+      status: 401,
+      statusText: "Unauthorized",
+      headers: { "content-type": "application/json" },
+    });
+  }
+  if (String(input).includes("/missing")) {
+    return new Response("Not here", { status: 404, statusText: "Not Found" });
+  }
+  return new Response(JSON.stringify({ ok: true }));
+};
+
+const auth = {
+  onRequest: (request: HttpRequest) => {
+    request.headers.set("authorization", `Bearer ${accessToken}`);
+    return request;
+  },
+  onResponse: async (
+    response: Response,
+    request: HttpRequest,
+    retry: (request: HttpRequest) => Promise<Response>,
+  ) => {
+    if (response.status !== 401) return response;
+    accessToken = "fresh"; // Pretend to refresh the token
+    return retry(request);
+  },
+};
+
+const userPosts = fetchState<{ ok: boolean }, { userId: number; page: number }>(
+  "/api/users/:userId/posts",
+  auth,
+);
+console.log("Template + query:", await userPosts.execute({ userId: 7, page: 2 })); // { ok: true }
+console.log("Sent:", sentRequests); // Twice: 401, then the retry with a fresh token
+
+sentRequests.length = 0;
+const renamePost = fetchState<string>("/api/posts/:id", {
+  ...auth,
+  method: "PATCH",
+  parse: "text",
+});
+console.log("Text body:", await renamePost.execute({ id: 3, title: "Hi" })); // {"ok":true}
+console.log("Sent:", sentRequests); // ["PATCH /api/posts/3 {\"title\":\"Hi\"}"]
+
+const missing = fetchState("/missing", auth);
+await missing.execute().catch(() => {});
+const missingError = missing.error.value;
+if (missingError instanceof HttpError) {
+  console.log("HttpError:", missingError.status, missingError.body); // 404 Not here
+}
+globalThis.fetch = realFetch;
+
+// === React Hooks ===
+console.log("\n=== React Hooks ===");
+// Tell React this is a test environment, so act() applies updates synchronously
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+const { act } = TestRenderer;
+
+const clicks = State(0);
+let counterRenders = 0;
+const Counter = () => {
+  counterRenders++;
+  return createElement("span", null, useRaptorState(clicks));
+};
+let counterView!: TestRenderer.ReactTestRenderer;
+act(() => {
+  counterView = TestRenderer.create(createElement(Counter));
+});
+act(() => {
+  clicks.set(1);
+});
+console.log("Rendered count:", counterView.toJSON()); // { type: "span", children: ["1"] }
+console.log("Counter renders:", counterRenders); // 2
+
+const greeting = asyncState(async (name: string) => {
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  return `Hello ${name}`;
+});
+const seen: string[] = [];
+const Greeting = () => {
+  const { data, isLoading, hasData } = useAsyncState(greeting);
+  seen.push(`${isLoading ? "loading" : "idle"}:${hasData ? data : "-"}`);
+  return null;
+};
+act(() => {
+  TestRenderer.create(createElement(Greeting));
+});
+await act(async () => {
+  await greeting.execute("Ada");
+});
+console.log("Async render states:", [...new Set(seen)]); // ["idle:-", "loading:-", "idle:Hello Ada"]
+act(() => {
+  counterView.unmount();
+});
+
+// === Selector Hook ===
+console.log("\n=== Selector Hook ===");
+const account = State({ name: "Ada", avatar: "a.png", tags: ["admin"] });
+const renders = { name: 0, tags: 0, done: 0, total: 0 };
+const NameBadge = () => {
+  renders.name++;
+  return createElement("b", null, useRaptorSelector(account, (user) => user?.name));
+};
+const TagList = () => {
+  renders.tags++;
+  // A new array each time, kept stable by shallow equality
+  const tags = useRaptorSelector(account, (user) => [...(user?.tags ?? [])], "shallow");
+  return createElement("i", null, tags.join(","));
+};
+const chores = collection([{ title: "Dishes", done: false }, { title: "Laundry", done: false }]);
+const DoneCount = () => {
+  renders.done++;
+  const done = useRaptorSelector(chores, (items) => items?.filter((c) => c.done).length);
+  return createElement("span", null, done);
+};
+const choreTotal = computed([chores], (items) => items?.length ?? 0);
+const TotalIsEven = () => {
+  renders.total++;
+  const even = useRaptorSelector(choreTotal, (total) => total % 2 === 0);
+  return createElement("span", null, String(even));
+};
+
+let accountView!: TestRenderer.ReactTestRenderer;
+act(() => {
+  accountView = TestRenderer.create(
+    createElement("div", null, [
+      createElement(NameBadge, { key: "name" }),
+      createElement(TagList, { key: "tags" }),
+      createElement(DoneCount, { key: "done" }),
+      createElement(TotalIsEven, { key: "total" }),
+    ]),
+  );
+});
+act(() => {
+  account.update((user) => user && { ...user, avatar: "b.png" });
+});
+console.log("Renders after avatar change:", renders); // { name: 1, tags: 1, done: 1, total: 1 }
+act(() => {
+  account.update((user) => user && { ...user, name: "Ada L." });
+  chores.updateAt(0, (chore) => ({ ...chore, title: "Dishes!" }));
+});
+console.log("Renders after name change:", renders); // { name: 2, tags: 1, done: 1, total: 1 }
+act(() => {
+  chores.updateAt(1, (chore) => ({ ...chore, done: true }));
+  chores.update((items) => [
+    ...(items ?? []),
+    { title: "Windows", done: false },
+    { title: "Floors", done: false },
+  ]);
+});
+console.log("Renders after chore changes:", renders); // { name: 2, tags: 1, done: 2, total: 1 }
+console.log("Rendered:", JSON.stringify(accountView.toJSON())); // Ada L., admin, 1, true
+act(() => {
+  accountView.unmount();
+});
+
+// === Suspense ===
+console.log("\n=== Suspense ===");
+let bookLoads = 0;
+const book = asyncState(async (id: number) => {
+  bookLoads++;
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  if (id < 0) throw new Error("Book not found");
+  return { id, title: `Book ${id}` };
+});
+
+class Boundary extends Component<{ children: ReactNode }, { error: Error | null }> {
+  override state = { error: null as Error | null };
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+  override render() {
+    return this.state.error ? `Failed: ${this.state.error.message}` : this.props.children;
+  }
+}
+const BookTitle = ({ id }: { id: number }) => {
+  return useAsyncStateSuspense(book, id).title;
+};
+const shelf = (id: number) => {
+  return createElement(
+    Boundary,
+    null,
+    createElement(
+      Suspense,
+      { fallback: "Loading..." },
+      createElement(BookTitle, { id }),
+      createElement(BookTitle, { id }),
+    ),
+  );
+};
+
+let shelfView!: TestRenderer.ReactTestRenderer;
+book.execute(1); // Already in flight when the components mount
+act(() => {
+  shelfView = TestRenderer.create(shelf(1));
+});
+console.log("Suspended:", shelfView.toJSON()); // Loading...
+await act(async () => {
+  await new Promise((resolve) => setTimeout(resolve, 10));
+});
+console.log("Resolved:", shelfView.toJSON()); // ["Book 1", "Book 1"]
+console.log("Book loads:", bookLoads); // 1
+
+// React reports errors caught by boundaries on console.error
+const consoleError = console.error;
+console.error = () => {};
+act(() => {
+  shelfView.update(shelf(-1));
+});
+await act(async () => {
+  await new Promise((resolve) => setTimeout(resolve, 10));
+});
+console.error = consoleError;
+console.log("Error boundary:", shelfView.toJSON()); // Failed: Book not found
+console.log("Book loads:", bookLoads); // 2
+act(() => {
+  shelfView.unmount();
+});
+
+// === Component-Scoped State ===
+console.log("\n=== Component-Scoped State ===");
+const localCounters: StateInstance<number>[] = [];
+const LocalCounter = () => {
+  const [value, counter] = useLocalState(0);
+  localCounters.push(counter);
+  return createElement("span", null, value);
+};
+let localView!: TestRenderer.ReactTestRenderer;
+act(() => {
+  localView = TestRenderer.create(
+    createElement("div", null, [
+      createElement(LocalCounter, { key: "a" }),
+      createElement(LocalCounter, { key: "b" }),
+    ]),
+  );
+});
+act(() => {
+  localCounters[0].set(5);
+});
+console.log("Independent counters:", JSON.stringify(localView.toJSON())); // 5 and 0
+console.log("Stable instance:", localCounters[0] === localCounters[2]); // true
+act(() => {
+  localView.unmount();
+});
+
+let cartsDisposed = 0;
+const [CartProvider, useCart] = createStateContext(() => ({
+  items: collection<string>(),
+  count: State(0),
+  audit: { dispose: () => cartsDisposed++ },
+}));
+const carts = new Set<ReturnType<typeof useCart>>();
+const CartBadge = () => {
+  const cart = useCart();
+  carts.add(cart);
+  return createElement("b", null, useRaptorState(cart.items)?.length ?? 0);
+};
+let cartView!: TestRenderer.ReactTestRenderer;
+act(() => {
+  cartView = TestRenderer.create(
+    createElement("div", null, [
+      createElement(CartProvider, { key: "one" }, createElement(CartBadge)),
+      createElement(CartProvider, { key: "two" }, createElement(CartBadge)),
+    ]),
+  );
+});
+act(() => {
+  [...carts][0].items.push("apple");
+});
+console.log("Carts created:", carts.size); // 2
+console.log("Separate carts:", JSON.stringify(cartView.toJSON())); // 1 and 0
+act(() => {
+  cartView.unmount();
+});
+await new Promise((resolve) => setTimeout(resolve, 0));
+console.log("Carts disposed:", cartsDisposed); // 2
+
+const consoleErrorOutside = console.error;
+console.error = () => {};
+try {
+  act(() => {
+    TestRenderer.create(createElement(CartBadge));
+  });
+} catch (error) {
+  console.log("Outside provider:", (error as Error).message); // hook used outside of its Provider
+}
+console.error = consoleErrorOutside;
+
+// === Scopes and Hydration ===
+console.log("\n=== Scopes and Hydration ===");
+const visits = State(0, { name: "visits" });
+const doubledVisits = computed([visits], (value) => (value ?? 0) * 2);
+const requestA = fork();
+const requestB = fork();
+withScope(requestA, () => visits.set(3));
+withScope(requestB, () => visits.update((value) => (value ?? 0) + 1));
+console.log("Scoped values:", withScope(requestA, () => visits.value), withScope(requestB, () => visits.value)); // 3 1
+console.log("Global untouched:", visits.value, doubledVisits.value); // 0 0
+console.log("Scoped computed:", withScope(requestA, () => doubledVisits.value)); // 6
+
+const globalSeen: unknown[] = [];
+const stopGlobal = visits.subscribe((value) => globalSeen.push(value));
+withScope(requestA, () => visits.set(4));
+stopGlobal();
+console.log("Global subscribers skip scoped writes:", JSON.stringify(globalSeen)); // [0]
+
+// Writes through effector's own scope APIs are isolated too
+const serverTheme = persistedState("ssr-theme", "light", { storage: sharedStorage });
+const themeSeen: unknown[] = [];
+const stopTheme = serverTheme.subscribe((value) => themeSeen.push(value));
+await allSettled(serverTheme.$state as StoreWritable<string>, { scope: requestA, params: "dark-from-server" });
+stopTheme();
+console.log("allSettled write isolated:", JSON.stringify(themeSeen), sharedStorage.getItem("ssr-theme")); // ["light"] null
+
+let memberFetches = 0;
+const member = asyncState(async (id: number) => {
+  memberFetches++;
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  return { id, name: `user-${id}` };
+}, null, { name: "member" });
+await Promise.all([
+  withScope(requestA, () => member.execute(1)),
+  withScope(requestB, () => member.execute(2)),
+]);
+console.log("Concurrent scoped requests:", withScope(requestA, () => member.data.value?.name), withScope(requestB, () => member.data.value?.name)); // user-1 user-2
+console.log("Global async untouched:", member.hasData); // false
+
+const serverData = JSON.parse(JSON.stringify(serialize(requestA)));
+console.log("Serialized:", JSON.stringify(serverData)); // {"visits":4,"member":{"id":1,"name":"user-1"}}
+
+const ScopedVisits = () => createElement("i", null, useRaptorState(visits));
+let scopedView!: TestRenderer.ReactTestRenderer;
+act(() => {
+  scopedView = TestRenderer.create(
+    createElement(ScopeProvider, { scope: requestB }, createElement(ScopedVisits)),
+  );
+});
+console.log("ScopeProvider render:", JSON.stringify(scopedView.toJSON())); // 1
+act(() => {
+  scopedView.unmount();
+});
+
+const clientScope = fork();
+hydrate(serverData, clientScope);
+console.log("Hydrated scope:", withScope(clientScope, () => visits.value), visits.value); // 4 0
+
+// The client fills global states and Suspense reuses the server data
+hydrate(serverData);
+const fetchesBeforeHydrated = memberFetches;
+const MemberName = () => createElement("p", null, useAsyncStateSuspense(member, 1).name);
+let hydratedView!: TestRenderer.ReactTestRenderer;
+act(() => {
+  hydratedView = TestRenderer.create(
+    createElement(Suspense, { fallback: "loading" }, createElement(MemberName)),
+  );
+});
+console.log("Hydrated render:", JSON.stringify(hydratedView.toJSON()), visits.value); // "user-1" 4
+console.log("Refetched on client:", memberFetches !== fetchesBeforeHydrated); // false
+act(() => {
+  hydratedView.unmount();
+});
+
+// Disposing a named state frees its name for serialize() and hydrate()
+const draftName = State("", { name: "draft" });
+withScope(requestA, () => draftName.set("saved"));
+draftName.dispose();
+console.log("Disposed name released:", JSON.stringify(serialize(requestA)).includes("draft")); // false
+
 // === Execute Async Operations ===
 console.log("\n=== Async Execution ===");
 